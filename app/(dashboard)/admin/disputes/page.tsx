@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface DisputeRow {
+  dispute: {
+    id: string;
+    status: 'awaiting_worker' | 'awaiting_admin' | 'resolved';
+    buyerReason: string;
+    workerResponse: string | null;
+    workerEvidence: { urls?: string[]; files?: Record<string, string> } | null;
+    responseDeadlineAt: string;
+    workerSharePercent: number | null;
+    refundAmount: string | null;
+    workerPayout: string | null;
+    resolutionNotes: string | null;
+    createdAt: string;
+  };
+  job: {
+    id: string;
+    task: string;
+    budget: string;
+    deliverableText: string | null;
+    deliverableUrl: string | null;
+  };
+  workerName: string;
+}
+
+const STATUS_LABELS: Record<DisputeRow['dispute']['status'], string> = {
+  awaiting_worker: 'Awaiting worker',
+  awaiting_admin: 'Awaiting decision',
+  resolved: 'Resolved',
+};
+
+export default function AdminDisputesPage() {
+  const [disputes, setDisputes] = useState<DisputeRow[]>([]);
+  const [statusFilter, setStatusFilter] = useState<string>('awaiting_admin');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [statusFilter]);
+
+  const fetchDisputes = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : '';
+      const response = await fetch(`/api/admin/disputes${query}`);
+      if (!response.ok) throw new Error(response.status === 403 ? 'Admins only' : 'Failed to fetch disputes');
+      const data = await response.json();
+      setDisputes(data.disputes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch disputes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Disputes</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Rejected deliveries - split escrow between refund and worker payout
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="rounded-md border-gray-300 text-sm"
+        >
+          <option value="awaiting_admin">Awaiting decision</option>
+          <option value="awaiting_worker">Awaiting worker</option>
+          <option value="resolved">Resolved</option>
+          <option value="">All</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Loading disputes...</div>
+        </div>
+      ) : disputes.length === 0 ? (
+        <div className="bg-white shadow rounded-lg px-4 py-5 sm:p-6 text-sm text-gray-500">
+          No disputes
+        </div>
+      ) : (
+        disputes.map((row) => (
+          <DisputeCard key={row.dispute.id} row={row} onResolved={fetchDisputes} />
+        ))
+      )}
+    </div>
+  );
+}
+
+function DisputeCard({ row, onResolved }: { row: DisputeRow; onResolved: () => void }) {
+  const { dispute, job, workerName } = row;
+  const [workerSharePercent, setWorkerSharePercent] = useState(50);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const budget = parseFloat(job.budget);
+  const workerShare = (budget * workerSharePercent) / 100;
+
+  const resolve = async () => {
+    if (!notes.trim()) {
+      setError('Explain the decision - both parties can see it');
+      return;
+    }
+
+    if (!confirm(`Pay $${workerShare.toFixed(2)} to the worker and refund $${(budget - workerShare).toFixed(2)}?`)) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/disputes/${dispute.id}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workerSharePercent, notes }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to resolve dispute');
+      }
+
+      onResolved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve dispute');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{job.task}</h3>
+            <p className="text-sm text-gray-500">
+              ${budget.toFixed(2)} · {workerName} · opened {new Date(dispute.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <span className="text-sm font-medium text-gray-700">{STATUS_LABELS[dispute.status]}</span>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Delivery</dt>
+            <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">
+              {job.deliverableText || 'No text deliverable'}
+              {job.deliverableUrl && (
+                <a href={job.deliverableUrl} className="block text-blue-600 underline" target="_blank" rel="noreferrer">
+                  {job.deliverableUrl}
+                </a>
+              )}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Buyer</dt>
+            <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{dispute.buyerReason}</dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Worker</dt>
+            <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">
+              {dispute.workerResponse ||
+                `No response yet (window closes ${new Date(dispute.responseDeadlineAt).toLocaleString()})`}
+              {dispute.workerEvidence?.urls?.map((url) => (
+                <a key={url} href={url} className="block text-blue-600 underline" target="_blank" rel="noreferrer">
+                  {url}
+                </a>
+              ))}
+              {Object.keys(dispute.workerEvidence?.files || {}).length > 0 && (
+                <span className="block text-gray-500">
+                  Files: {Object.keys(dispute.workerEvidence!.files!).join(', ')}
+                </span>
+              )}
+            </dd>
+          </div>
+        </div>
+
+        {dispute.status === 'resolved' ? (
+          <p className="text-sm text-gray-700">
+            {dispute.workerSharePercent}% to worker (${dispute.workerPayout} paid out, ${dispute.refundAmount}{' '}
+            refunded) - {dispute.resolutionNotes}
+          </p>
+        ) : (
+          <div className="space-y-3 border-t border-gray-200 pt-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Worker share: {workerSharePercent}% (${workerShare.toFixed(2)} before platform fee, $
+              {(budget - workerShare).toFixed(2)} refunded)
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={workerSharePercent}
+                onChange={(e) => setWorkerSharePercent(Number(e.target.value))}
+                className="mt-2 block w-full"
+              />
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Decision notes"
+              rows={3}
+              className="block w-full rounded-md border-gray-300 text-sm"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={resolve}
+              disabled={submitting}
+              className="px-4 py-2 bg-gray-900 text-white text-sm rounded-md disabled:opacity-50"
+            >
+              {submitting ? 'Resolving...' : 'Resolve dispute'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
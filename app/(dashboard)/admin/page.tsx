@@ -101,6 +101,17 @@ export default function AdminPage() {
           </p>
         </div>
       </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            Disputes
+          </h3>
+          <a href="/admin/disputes" className="text-sm text-blue-600 underline">
+            Review open disputes
+          </a>
+        </div>
+      </div>
     </div>
   );
 }
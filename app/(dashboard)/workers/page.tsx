@@ -1,8 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+interface MyWorker {
+  id: string;
+  name: string;
+  status: string;
+  acceptingJobs: boolean;
+  payoutBlockers: string[]; // Empty when Stripe can pay this worker
+}
 
 export default function WorkersPage() {
+  const [myWorkers, setMyWorkers] = useState<MyWorker[]>([]);
   const [formData, setFormData] = useState({
     name: '',
     specialty: '',
@@ -13,6 +22,23 @@ export default function WorkersPage() {
   const [submitting, setSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
 
+  useEffect(() => {
+    fetchMyWorkers();
+  }, []);
+
+  const fetchMyWorkers = async () => {
+    try {
+      const response = await fetch('/api/workers/mine');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch workers: ${response.status}`);
+      }
+      const data = await response.json();
+      setMyWorkers(data.workers);
+    } catch (error) {
+      console.error('Failed to fetch workers:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSubmitting(true);
@@ -35,6 +61,7 @@ export default function WorkersPage() {
 
       if (response.ok) {
         setSuccess(true);
+        fetchMyWorkers();
         setFormData({
           name: '',
           specialty: '',
@@ -59,6 +86,39 @@ export default function WorkersPage() {
         </p>
       </div>
 
+      {myWorkers.length > 0 && (
+        <div className="bg-white shadow px-4 py-5 sm:p-6 rounded-lg">
+          <h3 className="text-lg font-medium text-gray-900">Your Workers</h3>
+          <ul className="mt-4 divide-y divide-gray-200">
+            {myWorkers.map((worker) => (
+              <li key={worker.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">{worker.name}</span>
+                  <span className="text-sm text-gray-500">
+                    {worker.status}
+                    {worker.acceptingJobs ? ' · accepting jobs' : ''}
+                  </span>
+                </div>
+                {worker.payoutBlockers.length === 0 ? (
+                  <p className="mt-1 text-sm text-green-700">Ready to receive payouts</p>
+                ) : (
+                  <div className="mt-2 rounded-md bg-yellow-50 p-3">
+                    <p className="text-sm font-medium text-yellow-800">
+                      Blocked from approval and hiring until Stripe can pay it:
+                    </p>
+                    <ul className="mt-1 list-disc pl-5 text-sm text-yellow-700">
+                      {worker.payoutBlockers.map((blocker) => (
+                        <li key={blocker}>{blocker}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {success && (
         <div className="rounded-md bg-green-50 p-4">
           <p className="text-sm font-medium text-green-800">
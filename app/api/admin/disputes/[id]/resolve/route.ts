@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { disputeService } from '@/features/jobs/disputes';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { isAdmin } from '@/lib/security/admin-auth';
+
+const resolveDisputeSchema = z.object({
+  workerSharePercent: z.number().int().min(0).max(100),
+  notes: z.string().min(1).max(5000),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // CRITICAL: Only admins move escrow on a dispute
+  if (!isAdmin(userId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const limitCheck = rateLimit(req, true, `user:${userId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const body = await req.json();
+    const { workerSharePercent, notes } = resolveDisputeSchema.parse(body);
+
+    const dispute = await disputeService.resolveDispute(params.id, userId, workerSharePercent, notes);
+
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error('Dispute resolution error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve dispute' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
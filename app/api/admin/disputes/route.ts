@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { disputeService } from '@/features/jobs/disputes';
+import { z } from 'zod';
+import { isAdmin } from '@/lib/security/admin-auth';
+
+const listDisputesSchema = z.object({
+  status: z.enum(['awaiting_worker', 'awaiting_admin', 'resolved']).optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { status } = listDisputesSchema.parse({
+      status: req.nextUrl.searchParams.get('status') || undefined,
+    });
+
+    const disputes = await disputeService.listDisputes(status);
+
+    return NextResponse.json({ disputes });
+  } catch (error) {
+    console.error('Admin disputes error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch disputes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { ledgerService } from '@/features/payments/ledger';
+import { isAdmin } from '@/lib/security/admin-auth';
+
+/**
+ * Reconcile the ledger against wallet, escrow and pipeline balances
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const report = await ledgerService.reconcile();
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Ledger reconciliation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reconcile ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Post opening balances for wallets, escrows and pipeline reserves from before the ledger
+ * Safe to repeat - accounts the ledger already tracks are left alone
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const posted = await ledgerService.postOpeningBalances();
+    const report = await ledgerService.reconcile();
+
+    return NextResponse.json({ posted, report });
+  } catch (error) {
+    console.error('Ledger opening balances error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to post opening balances' },
+      { status: 500 }
+    );
+  }
+}
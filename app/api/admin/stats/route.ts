@@ -3,6 +3,8 @@ import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { users, workers, jobs, transactions } from '@/lib/db/schema';
 import { sql } from 'drizzle-orm';
+import { ledgerService } from '@/features/payments/ledger';
+import { toDollars } from '@/lib/money';
 
 export async function GET(req: NextRequest) {
   try {
@@ -17,17 +19,14 @@ export async function GET(req: NextRequest) {
     const [totalWorkersResult] = await db.select({ count: sql<number>`count(*)` }).from(workers);
     const [totalJobsResult] = await db.select({ count: sql<number>`count(*)` }).from(jobs);
 
-    // Calculate total platform revenue (10% fee from all completed jobs)
-    const [revenueResult] = await db
-      .select({ total: sql<string>`COALESCE(SUM(budget * 0.10), 0)` })
-      .from(jobs)
-      .where(sql`status = 'approved'`);
+    // Platform revenue: every fee actually taken (approvals, milestone releases, dispute splits)
+    const revenueCents = await ledgerService.getPlatformRevenueCents();
 
     return NextResponse.json({
       totalUsers: Number(totalUsersResult.count) || 0,
       totalWorkers: Number(totalWorkersResult.count) || 0,
       totalJobs: Number(totalJobsResult.count) || 0,
-      totalRevenue: parseFloat(revenueResult.total) || 0,
+      totalRevenue: toDollars(revenueCents),
     });
   } catch (error) {
     console.error('Admin stats error:', error);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { stripeWebhookHandler } from '@/features/payments/stripe-webhooks';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { isAdmin } from '@/lib/security/admin-auth';
+
+/**
+ * Process a failed Stripe event again from its stored payload
+ * Processed events are refused - replaying can never apply an event twice
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // CRITICAL: Replays move money - admins only
+  if (!isAdmin(userId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const limitCheck = rateLimit(req, true, `user:${userId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const event = await stripeWebhookHandler.getEvent(params.id);
+
+    if (!event) {
+      return NextResponse.json({ error: 'Stripe event not found' }, { status: 404 });
+    }
+
+    if (event.status === 'processed') {
+      return NextResponse.json({ error: 'Stripe event was already processed' }, { status: 409 });
+    }
+
+    const outcome = await stripeWebhookHandler.replayEvent(event.id);
+    const { payload, ...updated } = (await stripeWebhookHandler.getEvent(event.id))!;
+
+    return NextResponse.json(
+      { outcome, event: updated },
+      { status: outcome.status === 'failed' ? 500 : 200 }
+    );
+  } catch (error) {
+    console.error('Stripe event replay error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to replay Stripe event' },
+      { status: 500 }
+    );
+  }
+}
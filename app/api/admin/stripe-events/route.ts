@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { stripeWebhookHandler } from '@/features/payments/stripe-webhooks';
+import { z } from 'zod';
+import { isAdmin } from '@/lib/security/admin-auth';
+
+const listEventsSchema = z.object({
+  status: z.enum(['received', 'processed', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+/**
+ * Stored Stripe webhook events, newest first (?status=failed for the replay queue)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { status, limit } = listEventsSchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+    const events = await stripeWebhookHandler.listEvents(status, limit);
+
+    // Payloads are large and hold customer details - list the bookkeeping only
+    return NextResponse.json({
+      events: events.map(({ payload, ...event }) => event),
+    });
+  } catch (error) {
+    console.error('Stripe events fetch error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch Stripe events' },
+      { status: 500 }
+    );
+  }
+}
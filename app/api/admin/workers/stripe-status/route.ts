@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { workerService } from '@/features/workers/service';
+import { isAdmin } from '@/lib/security/admin-auth';
+
+/**
+ * Re-read every connected worker's Stripe Connect status
+ * Run once after upgrading (existing workers start with payouts not enabled),
+ * or whenever account.updated webhooks may have been missed
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updated = await workerService.refreshConnectStatuses();
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error('Stripe status refresh error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refresh Stripe status' },
+      { status: 500 }
+    );
+  }
+}
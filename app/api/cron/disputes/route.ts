@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeService } from '@/features/jobs/disputes';
+import { verifyCronRequest } from '@/lib/security/cron-auth';
+
+/**
+ * Refund buyers whose disputes the worker didn't answer in time
+ * Called by the platform scheduler or scripts/cron-runner.ts
+ */
+export async function POST(req: NextRequest) {
+  // SECURITY: Verified by CRON_SECRET, not Clerk
+  if (!verifyCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await disputeService.processExpiredDisputes();
+
+    if (!result.skipped) {
+      console.log(`Dispute sweep: ${result.expired} expired, ${result.failed.length} failed`);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Dispute sweep error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Dispute sweep failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ledgerService } from '@/features/payments/ledger';
+import { auditLogger, SecurityEventType, Severity } from '@/lib/security/audit-logger';
+import { verifyCronRequest } from '@/lib/security/cron-auth';
+
+/**
+ * Reconcile the ledger and raise an audit event if anything disagrees
+ * Called by the platform scheduler or scripts/cron-runner.ts
+ */
+export async function POST(req: NextRequest) {
+  // SECURITY: Verified by CRON_SECRET, not Clerk
+  if (!verifyCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await ledgerService.reconcile();
+
+    if (!report.balanced) {
+      await auditLogger.log({
+        eventType: SecurityEventType.LEDGER_MISMATCH,
+        severity: Severity.CRITICAL,
+        message: 'Ledger does not reconcile with wallet, escrow or pipeline balances',
+        details: {
+          unbalancedEntries: report.unbalancedEntries,
+          wallets: report.wallets,
+          escrows: report.escrows,
+          pipelines: report.pipelines,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Ledger reconciliation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ledger reconciliation failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pipelineService } from '@/features/pipelines/service';
+import { verifyCronRequest } from '@/lib/security/cron-auth';
+
+/**
+ * Advance running pipelines and return reserves left on finished ones
+ * Called by the platform scheduler or scripts/cron-runner.ts
+ */
+export async function POST(req: NextRequest) {
+  // SECURITY: Verified by CRON_SECRET, not Clerk
+  if (!verifyCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await pipelineService.processPipelines();
+
+    if (!result.skipped) {
+      console.log(
+        `Pipeline sweep: ${result.checked} checked, ${result.reservesReleased} reserves released, ${result.failed.length} failed`
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Pipeline sweep error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Pipeline sweep failed' },
+      { status: 500 }
+    );
+  }
+}
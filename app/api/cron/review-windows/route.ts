@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobService } from '@/features/jobs/service';
+import { verifyCronRequest } from '@/lib/security/cron-auth';
+
+/**
+ * Send review reminders and auto-approve deliveries past their review window
+ * Called by the platform scheduler or scripts/cron-runner.ts
+ */
+export async function POST(req: NextRequest) {
+  // SECURITY: Verified by CRON_SECRET, not Clerk
+  if (!verifyCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await jobService.processReviewWindows();
+
+    if (!result.skipped) {
+      console.log(
+        `Review sweep: ${result.reminded} reminded, ${result.autoApproved} auto-approved, ${result.milestonesAutoApproved} milestones auto-approved, ${result.failed.length} failed`
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Review sweep error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Review sweep failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobService } from '@/features/jobs/service';
+import { verifyCronRequest } from '@/lib/security/cron-auth';
+
+/**
+ * Cancel and refund jobs past their delivery deadline
+ * Called by the platform scheduler or scripts/cron-runner.ts
+ */
+export async function POST(req: NextRequest) {
+  // SECURITY: Verified by CRON_SECRET, not Clerk
+  if (!verifyCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await jobService.processTimeouts();
+
+    if (!result.skipped) {
+      console.log(
+        `Timeout sweep: ${result.cancelled}/${result.checked} jobs cancelled, ${result.refunded} refunded, ${result.failed.length} failed`
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Timeout sweep error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Timeout sweep failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { verifyWorkerRequest } from '@/lib/middleware/worker-auth';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed by the worker assigned to the job (body is empty JSON)
+    const verified = await verifyWorkerRequest(req, params.id);
+    if (!verified.ok) return verified.response;
+
+    const job = await jobService.acceptJob(params.id, verified.worker!.id);
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Job accept error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to accept job' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
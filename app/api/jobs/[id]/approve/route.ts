@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { pipelineService } from '@/features/pipelines/service';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { rateLimit } from '@/lib/middleware/rate-limit';
 
@@ -14,21 +19,36 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
-  const { userId } = await auth();
-  if (!userId) {
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
   // Rate limit by userId (not IP - prevents proxy bypass)
-  const limitCheck = rateLimit(req, true, `user:${userId}`);
+  const limitCheck = rateLimit(req, true, `user:${clerkId}`);
   if (limitCheck) return limitCheck;
 
   try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
     const body = await req.json();
     const { rating, feedback } = approveJobSchema.parse(body);
 
     // CRITICAL: Pass userId to verify job ownership
-    const job = await jobService.approveJob(params.id, userId, rating, feedback);
+    const job = await jobService.approveJob(params.id, user.id, rating, feedback);
+
+    // Start the next pipeline step right away (the cron sweep catches anything missed)
+    if (job.pipelineId) {
+      await pipelineService.syncPipeline(job.pipelineId).catch((error) => {
+        console.error(`Failed to advance pipeline ${job.pipelineId}:`, error);
+      });
+    }
 
     return NextResponse.json({ job });
   } catch (error) {
@@ -43,7 +63,7 @@ export async function POST(
 
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to approve job' },
-      { status: 500 }
+      { status: getJobErrorStatus(error) }
     );
   }
 }
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { jobService } from '@/features/jobs/service';
+import { readArtifact } from '@/features/jobs/artifacts';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+/**
+ * Download a delivered file (job owner only)
+ * Names are URL-encoded relative paths, e.g. src%2Fapp.ts
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; name: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, false, `user:${clerkId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const job = await jobService.getJob(params.id);
+
+    // SECURITY: Other users' jobs look like they don't exist
+    if (!job || job.userId !== user.id) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const result = await readArtifact(job.id, decodeURIComponent(params.name));
+
+    if (!result) {
+      return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+    }
+
+    const { artifact, data } = result;
+    const fileName = artifact.name.split('/').pop()!;
+
+    // SECURITY: Always a download - delivered HTML/SVG must never render on our origin
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': artifact.mimeType,
+        'Content-Length': artifact.sizeBytes.toString(),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'X-Content-SHA256': artifact.sha256,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Artifact download error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to download artifact' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+const cancelJobSchema = z.object({
+  reason: z.string().min(1).max(1000).default('Cancelled by buyer'),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { reason } = cancelJobSchema.parse(body);
+
+    // CRITICAL: Pass userId to verify job ownership
+    const result = await jobService.cancelJobByBuyer(params.id, user.id, reason);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Job cancel error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel job' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
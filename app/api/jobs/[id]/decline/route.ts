@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { z } from 'zod';
+import { verifyWorkerRequest } from '@/lib/middleware/worker-auth';
+
+const declineJobSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed by the worker assigned to the job
+    const verified = await verifyWorkerRequest(req, params.id);
+    if (!verified.ok) return verified.response;
+
+    const { reason } = declineJobSchema.parse(verified.body);
+
+    const job = await jobService.declineJob(params.id, verified.worker!.id, reason);
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Job decline error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to decline job' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
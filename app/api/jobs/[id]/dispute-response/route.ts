@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disputeService } from '@/features/jobs/disputes';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { z } from 'zod';
+import { verifyWorkerRequest } from '@/lib/middleware/worker-auth';
+
+const disputeResponseSchema = z.object({
+  response: z.string().min(1).max(5000),
+  evidenceUrls: z.array(z.string().url()).max(10).optional(),
+  evidenceFiles: z.record(z.string()).optional(),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed by the worker assigned to the job
+    const verified = await verifyWorkerRequest(req, params.id);
+    if (!verified.ok) return verified.response;
+
+    const data = disputeResponseSchema.parse(verified.body);
+
+    const dispute = await disputeService.respondToDispute(params.id, verified.worker!.id, data);
+
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error('Dispute response error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to respond to dispute' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { jobService } from '@/features/jobs/service';
+import { messageService, type MessageSender } from '@/features/jobs/messages';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users, type Job } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { verifyWorkerRequest } from '@/lib/middleware/worker-auth';
+
+const sendMessageSchema = z.object({
+  body: z.string().min(1).max(5000),
+});
+
+type ParticipantResult =
+  | { ok: true; job: Job; sender: MessageSender; body: unknown }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Read a job's message thread (buyer or assigned worker)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const participant = await authenticateParticipant(req, params.id, false);
+    if (!participant.ok) return participant.response;
+
+    const messages = await messageService.getMessages(participant.job.id);
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error('Job messages fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch messages' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * Post to a job's message thread (buyer or assigned worker)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const participant = await authenticateParticipant(req, params.id, true);
+    if (!participant.ok) return participant.response;
+
+    const { body } = sendMessageSchema.parse(participant.body);
+
+    const message = await messageService.sendMessage(participant.job, participant.sender, body);
+
+    return NextResponse.json({ message }, { status: 201 });
+  } catch (error) {
+    console.error('Job message error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send message' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * Buyers are identified by their Clerk session, workers by their webhook signature
+ * (same headers as the deliver callback; signed GETs sign an empty body)
+ */
+async function authenticateParticipant(
+  req: NextRequest,
+  jobId: string,
+  readBody: boolean
+): Promise<ParticipantResult> {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    const verified = await verifyWorkerRequest(req, jobId);
+    if (!verified.ok) return verified;
+
+    return {
+      ok: true,
+      job: verified.job,
+      sender: { type: 'worker', workerId: verified.worker!.id },
+      body: verified.body,
+    };
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, readBody, `user:${clerkId}`);
+  if (limitCheck) return { ok: false, response: limitCheck };
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.clerkId, clerkId),
+  });
+
+  if (!user) {
+    return { ok: false, response: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  const job = await jobService.getJob(jobId);
+
+  // SECURITY: Other users' jobs look like they don't exist
+  if (!job || job.userId !== user.id) {
+    return { ok: false, response: NextResponse.json({ error: 'Job not found' }, { status: 404 }) };
+  }
+
+  return {
+    ok: true,
+    job,
+    sender: { type: 'buyer', userId: user.id },
+    body: readBody ? await req.json() : {},
+  };
+}
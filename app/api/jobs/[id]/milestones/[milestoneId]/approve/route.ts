@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // CRITICAL: Pass userId to verify job ownership
+    const milestone = await jobService.approveMilestone(params.id, params.milestoneId, user.id);
+
+    return NextResponse.json({ milestone });
+  } catch (error) {
+    console.error('Milestone approval error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to approve milestone' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { z } from 'zod';
+import { verifyWorkerRequest } from '@/lib/middleware/worker-auth';
+
+const progressSchema = z.object({
+  percent: z.number().int().min(0).max(100),
+  message: z.string().min(1).max(2000),
+  // Optional partial artifact
+  artifactText: z.string().optional(),
+  artifactUrl: z.string().url().optional(),
+  artifactFiles: z.record(z.string()).optional(),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed by the worker assigned to the job
+    const verified = await verifyWorkerRequest(req, params.id);
+    if (!verified.ok) return verified.response;
+
+    const data = progressSchema.parse(verified.body);
+
+    const progress = await jobService.recordProgress({
+      jobId: params.id,
+      workerId: verified.worker!.id,
+      ...data,
+    });
+
+    return NextResponse.json({ progress }, { status: 201 });
+  } catch (error) {
+    console.error('Job progress error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record progress' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
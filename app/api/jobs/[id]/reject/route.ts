@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { rateLimit } from '@/lib/middleware/rate-limit';
 
@@ -13,21 +17,30 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
-  const { userId } = await auth();
-  if (!userId) {
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
   // Rate limit by userId (not IP - prevents proxy bypass)
-  const limitCheck = rateLimit(req, true, `user:${userId}`);
+  const limitCheck = rateLimit(req, true, `user:${clerkId}`);
   if (limitCheck) return limitCheck;
 
   try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
     const body = await req.json();
     const { reason } = rejectJobSchema.parse(body);
 
     // CRITICAL: Pass userId to verify job ownership
-    const job = await jobService.rejectJob(params.id, userId, reason);
+    // Worker jobs come back as disputed (escrow held until resolved)
+    const job = await jobService.rejectJob(params.id, user.id, reason);
 
     return NextResponse.json({ job });
   } catch (error) {
@@ -42,7 +55,7 @@ export async function POST(
 
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to reject job' },
-      { status: 500 }
+      { status: getJobErrorStatus(error) }
     );
   }
 }
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+const requestRevisionSchema = z.object({
+  notes: z.string().min(1),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { notes } = requestRevisionSchema.parse(body);
+
+    // CRITICAL: Pass userId to verify job ownership
+    const job = await jobService.requestRevision(params.id, user.id, notes);
+
+    return NextResponse.json({
+      job,
+      revisionsRemaining: job.revisionsIncluded - job.revisionsUsed,
+    });
+  } catch (error) {
+    console.error('Revision request error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to request revision' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
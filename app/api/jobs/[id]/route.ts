@@ -1,23 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
 import { jobService } from '@/features/jobs/service';
+import { disputeService } from '@/features/jobs/disputes';
+import { getArtifactUrl, listArtifacts } from '@/features/jobs/artifacts';
+import { db } from '@/lib/db';
+import { users, type Job } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
 import { rateLimit } from '@/lib/middleware/rate-limit';
+import { verifyWorkerRequest } from '@/lib/middleware/worker-auth';
 
+/**
+ * Job details with its history, dispute, milestones and artifacts
+ * (the buyer or the assigned worker only)
+ */
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  // Rate limit check (normal)
-  const limitCheck = rateLimit(req);
-  if (limitCheck) return limitCheck;
-
   try {
-    const job = await jobService.getJob(params.id);
+    const viewer = await authenticateViewer(req, params.id);
+    if (!viewer.ok) return viewer.response;
+
+    const { job } = viewer;
 
-    if (!job) {
-      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
-    }
+    const events = await jobService.getJobHistory(job.id);
+    const queuePosition = await jobService.getQueuePosition(job);
+    const progress = await jobService.getJobProgress(job.id);
+    const dispute = await disputeService.getDisputeForJob(job.id);
+    const milestones = await jobService.getJobMilestones(job.id);
+    const artifacts = (await listArtifacts(job.id)).map(({ storageKey: _storageKey, ...artifact }) => ({
+      ...artifact,
+      downloadUrl: getArtifactUrl(job.id, artifact.name),
+    }));
 
-    return NextResponse.json({ job });
+    return NextResponse.json({ job, events, queuePosition, progress, dispute, milestones, artifacts });
   } catch (error) {
     console.error('Job fetch error:', error);
     return NextResponse.json(
@@ -26,3 +42,40 @@ export async function GET(
     );
   }
 }
+
+/**
+ * Buyers are identified by their Clerk session, workers by their webhook signature
+ * (signed GETs sign an empty body)
+ */
+async function authenticateViewer(
+  req: NextRequest,
+  jobId: string
+): Promise<{ ok: true; job: Job } | { ok: false; response: NextResponse }> {
+  const { userId: clerkId } = await auth();
+
+  if (!clerkId) {
+    const verified = await verifyWorkerRequest(req, jobId);
+    return verified.ok ? { ok: true, job: verified.job } : verified;
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, false, `user:${clerkId}`);
+  if (limitCheck) return { ok: false, response: limitCheck };
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.clerkId, clerkId),
+  });
+
+  if (!user) {
+    return { ok: false, response: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  const job = await jobService.getJob(jobId);
+
+  // SECURITY: Other users' jobs look like they don't exist
+  if (!job || job.userId !== user.id) {
+    return { ok: false, response: NextResponse.json({ error: 'Job not found' }, { status: 404 }) };
+  }
+
+  return { ok: true, job };
+}
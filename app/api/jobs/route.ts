@@ -1,22 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { jobFiltersSchema } from '@/features/jobs/search';
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { isWholeCents } from '@/lib/money';
 import { rateLimit } from '@/lib/middleware/rate-limit';
 
 const createJobSchema = z.object({
   type: z.enum(['skill', 'worker']),
   skillId: z.string().optional(),
   workerId: z.string().optional(),
+  offerId: z.string().optional(),
   task: z.string().min(1),
   inputs: z.record(z.any()).optional(),
   context: z.record(z.any()).optional(),
-  budget: z.number().min(0),
+  budget: z.number().min(0).refine(isWholeCents, 'Must be a whole number of cents').optional(), // Skill jobs only - worker jobs are priced by the offer
+  queueIfBusy: z.boolean().optional(), // Queue instead of failing when the worker is at capacity
+  reviewWindowHours: z.number().int().min(1).max(720).optional(), // Auto-approve after this long
+  // Worker jobs only - delivered and paid in order, amounts must add up to the offer price
+  milestones: z.array(z.object({
+    title: z.string().min(1).max(200),
+    description: z.string().optional(),
+    amount: z.number().positive().refine(isWholeCents, 'Must be a whole number of cents'),
+  })).min(1).max(20).optional(),
+}).refine((data) => data.type !== 'worker' || (!!data.workerId && !!data.offerId), {
+  message: 'workerId and offerId are required for worker jobs',
+  path: ['offerId'],
+}).refine((data) => data.type === 'worker' || !data.milestones, {
+  message: 'milestones are only supported for worker jobs',
+  path: ['milestones'],
+}).refine((data) => data.type !== 'skill' || data.budget !== undefined, {
+  message: 'budget is required for skill jobs',
+  path: ['budget'],
 });
 
+/**
+ * List the buyer's jobs, newest first
+ * Filters: status (comma-separated), type, createdAfter, createdBefore, workerId,
+ * skillId, minBudget, maxBudget, q (full-text), cursor, limit
+ */
 export async function GET(req: NextRequest) {
   try {
     const { userId: clerkId } = auth();
@@ -33,14 +59,23 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const jobs = await jobService.getUserJobs(user.id);
+    const filters = jobFiltersSchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+    const { jobs, nextCursor } = await jobService.getUserJobs(user.id, filters);
 
-    return NextResponse.json({ jobs });
+    return NextResponse.json({ jobs, nextCursor });
   } catch (error) {
     console.error('Jobs fetch error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to fetch jobs' },
-      { status: 500 }
+      { status: getJobErrorStatus(error) }
     );
   }
 }
@@ -73,7 +108,10 @@ export async function POST(req: NextRequest) {
       userId: user.id,
     });
 
-    return NextResponse.json({ job }, { status: 201 });
+    const queuePosition = await jobService.getQueuePosition(job);
+    const milestones = await jobService.getJobMilestones(job.id);
+
+    return NextResponse.json({ job, queuePosition, milestones }, { status: 201 });
   } catch (error) {
     console.error('Job creation error:', error);
 
@@ -86,7 +124,7 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to create job' },
-      { status: 500 }
+      { status: getJobErrorStatus(error) }
     );
   }
 }
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { workerMatcher } from '@/features/workers/matching';
+import { z } from 'zod';
+import { isWholeCents } from '@/lib/money';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+const matchSchema = z.object({
+  task: z.string().min(1),
+  budget: z.number().positive().refine(isWholeCents, 'Must be a whole number of cents'),
+  // Output of the MCP server's project detection
+  projectProfile: z.object({
+    language: z.array(z.string()).optional(),
+    framework: z.string().nullable().optional(),
+    dependencies: z.array(z.string()).optional(),
+    fileTypes: z.array(z.string()).optional(),
+  }).optional(),
+  limit: z.number().int().min(1).max(20).optional(),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId: clerkId } = await auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Rate limit by userId (not IP - prevents proxy bypass)
+    const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+    if (limitCheck) return limitCheck;
+
+    const body = await req.json();
+    const input = matchSchema.parse(body);
+
+    // Ranked best first, each with the offer to hire against and why it matched
+    const matches = await workerMatcher.matchWorkers(input);
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('Worker matching error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to match workers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { pipelineService } from '@/features/pipelines/service';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId: clerkId } = auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const status = await pipelineService.getPipelineStatus(params.id, user.id);
+
+    if (!status) {
+      return NextResponse.json({ error: 'Pipeline not found' }, { status: 404 });
+    }
+
+    // Pick up step outcomes the cron sweep hasn't processed yet
+    if (status.pipeline.status === 'running') {
+      await pipelineService.syncPipeline(params.id);
+      return NextResponse.json(await pipelineService.getPipelineStatus(params.id, user.id));
+    }
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Pipeline fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch pipeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { pipelineService } from '@/features/pipelines/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { isWholeCents } from '@/lib/money';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+const pipelineStepSchema = z.object({
+  type: z.enum(['skill', 'worker']),
+  skillId: z.string().optional(),
+  workerId: z.string().optional(),
+  offerId: z.string().optional(),
+  task: z.string().min(1),
+  inputs: z.record(z.any()).optional(),
+  budget: z.number().min(0).refine(isWholeCents, 'Must be a whole number of cents').optional(), // Skill steps only - worker steps are priced by the offer
+}).refine((step) => step.type !== 'worker' || (!!step.workerId && !!step.offerId), {
+  message: 'workerId and offerId are required for worker steps',
+  path: ['offerId'],
+}).refine((step) => step.type !== 'skill' || (!!step.skillId && step.budget !== undefined), {
+  message: 'skillId and budget are required for skill steps',
+  path: ['budget'],
+});
+
+const createPipelineSchema = z.object({
+  name: z.string().max(200).optional(),
+  context: z.record(z.any()).optional(), // Context for the first step
+  steps: z.array(pipelineStepSchema).min(1).max(10),
+});
+
+export async function GET() {
+  try {
+    const { userId: clerkId } = auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const pipelines = await pipelineService.getUserPipelines(user.id);
+
+    return NextResponse.json({ pipelines });
+  } catch (error) {
+    console.error('Pipelines fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch pipelines' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId: clerkId } = await auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Rate limit by userId (not IP - prevents proxy bypass)
+    const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+    if (limitCheck) return limitCheck;
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = createPipelineSchema.parse(body);
+
+    // Reserves the combined budget and starts step 1
+    const result = await pipelineService.createPipeline({
+      ...data,
+      userId: user.id,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Pipeline creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create pipeline' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { postingService } from '@/features/postings/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+const awardBidSchema = z.object({
+  bidId: z.string().uuid(),
+  priceCents: z.number().int().positive(), // The price the buyer saw - a re-priced bid is refused
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // CRITICAL: Verify authentication (belt-and-suspenders with middleware)
+  const { userId: clerkId } = await auth();
+  if (!clerkId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Rate limit by userId (not IP - prevents proxy bypass)
+  const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+  if (limitCheck) return limitCheck;
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { bidId, priceCents } = awardBidSchema.parse(body);
+
+    // CRITICAL: Pass userId to verify posting ownership - locks escrow at the bid price
+    const job = await postingService.awardBid(params.id, bidId, user.id, priceCents);
+
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error('Bid award error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to award bid' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { postingService } from '@/features/postings/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { z } from 'zod';
+import { verifyWorkerIdentity } from '@/lib/middleware/worker-auth';
+
+const bidSchema = z.object({
+  priceCents: z.number().int().positive(),
+  etaMinutes: z.number().int().positive(),
+  revisionsIncluded: z.number().int().min(0).max(10).optional(),
+  message: z.string().max(2000).optional(),
+});
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed by the bidding worker (identified by X-Worker-Id)
+    const verified = await verifyWorkerIdentity(req);
+    if (!verified.ok) return verified.response;
+
+    const input = bidSchema.parse(verified.body);
+
+    const bid = await postingService.submitBid(params.id, verified.worker, input);
+
+    return NextResponse.json({ bid }, { status: 201 });
+  } catch (error) {
+    console.error('Bid submission error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to submit bid' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
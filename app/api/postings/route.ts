@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { postingService } from '@/features/postings/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { isWholeCents } from '@/lib/money';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+const createPostingSchema = z.object({
+  task: z.string().min(1),
+  inputs: z.record(z.any()).optional(),
+  context: z.record(z.any()).optional(), // Only sent to the awarded worker
+  specialty: z.string().min(1).max(100),
+  budgetCeiling: z.number().positive().refine(isWholeCents, 'Must be a whole number of cents'),
+  biddingHours: z.number().int().min(1).max(168).optional(),
+});
+
+export async function GET() {
+  try {
+    const { userId: clerkId } = auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const postings = await postingService.getUserPostings(user.id);
+
+    return NextResponse.json({ postings });
+  } catch (error) {
+    console.error('Postings fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch postings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId: clerkId } = await auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Rate limit by userId (not IP - prevents proxy bypass)
+    const limitCheck = rateLimit(req, true, `user:${clerkId}`);
+    if (limitCheck) return limitCheck;
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = createPostingSchema.parse(body);
+
+    // No escrow yet - funds are locked when a bid is awarded
+    const result = await postingService.createPosting({
+      ...data,
+      userId: user.id,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Posting creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create posting' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
@@ -5,10 +5,11 @@ import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { fromDollars, isWholeCents } from '@/lib/money';
 import { rateLimit } from '@/lib/middleware/rate-limit';
 
 const addFundsSchema = z.object({
-  amount: z.number().min(5).max(1000),
+  amount: z.number().min(5).max(1000).refine(isWholeCents, 'Must be a whole number of cents'), // Dollars
 });
 
 export async function POST(req: NextRequest) {
@@ -37,7 +38,7 @@ export async function POST(req: NextRequest) {
     const { amount } = addFundsSchema.parse(body);
 
     // Create Stripe checkout session
-    const checkoutUrl = await walletService.createAddFundsSession(user.id, amount);
+    const checkoutUrl = await walletService.createAddFundsSession(user.id, fromDollars(amount));
 
     return NextResponse.json({ checkoutUrl });
   } catch (error) {
@@ -13,10 +13,15 @@ export async function POST(req: NextRequest) {
     // Verify webhook signature
     const event = stripeWebhookHandler.verifyWebhook(body, signature);
 
-    // Handle event
-    await stripeWebhookHandler.handleEvent(event);
+    // Handle event (exactly once - redeliveries are acknowledged without reprocessing)
+    const outcome = await stripeWebhookHandler.handleEvent(event);
 
-    return NextResponse.json({ received: true });
+    if (outcome.status === 'failed') {
+      // Non-2xx so Stripe retries; admins can also replay it
+      return NextResponse.json({ error: 'Event processing failed' }, { status: 500 });
+    }
+
+    return NextResponse.json({ received: true, duplicate: outcome.status === 'duplicate' });
   } catch (error) {
     console.error('Webhook error:', error);
     return NextResponse.json(
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { jobService } from '@/features/jobs/service';
+import { getJobErrorStatus } from '@/features/jobs/errors';
+import { jobFiltersSchema } from '@/features/jobs/search';
+import { workerService } from '@/features/workers/service';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { verifyWorkerIdentity } from '@/lib/middleware/worker-auth';
+
+/**
+ * List the jobs assigned to a worker, newest first (same filters as GET /api/jobs)
+ *
+ * Callable by the worker's owner (Clerk session) or by the worker itself
+ * (signed GET with X-Worker-Id, signature over an empty body)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId: clerkId } = await auth();
+
+    if (clerkId) {
+      // Rate limit by userId (not IP - prevents proxy bypass)
+      const limitCheck = rateLimit(req, false, `user:${clerkId}`);
+      if (limitCheck) return limitCheck;
+
+      const user = await db.query.users.findFirst({
+        where: eq(users.clerkId, clerkId),
+      });
+      const worker = await workerService.getWorker(params.id);
+
+      // SECURITY: Other users' workers look like they don't exist
+      if (!user || !worker || worker.userId !== user.id) {
+        return NextResponse.json({ error: 'Worker not found' }, { status: 404 });
+      }
+    } else {
+      const verified = await verifyWorkerIdentity(req);
+      if (!verified.ok) return verified.response;
+
+      if (verified.worker.id !== params.id) {
+        return NextResponse.json({ error: 'X-Worker-Id does not match this worker' }, { status: 403 });
+      }
+    }
+
+    const filters = jobFiltersSchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+    const { jobs, nextCursor } = await jobService.getWorkerJobs(params.id, filters);
+
+    return NextResponse.json({ jobs, nextCursor });
+  } catch (error) {
+    console.error('Worker jobs fetch error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch jobs' },
+      { status: getJobErrorStatus(error) }
+    );
+  }
+}
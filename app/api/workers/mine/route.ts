@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { workerService } from '@/features/workers/service';
+import { getPayoutBlockers } from '@/features/workers/payouts';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+
+/**
+ * The signed-in user's workers, with whatever is stopping each from being paid
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId: clerkId } = await auth();
+
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Rate limit by userId (not IP - prevents proxy bypass)
+    const limitCheck = rateLimit(req, false, `user:${clerkId}`);
+    if (limitCheck) return limitCheck;
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.clerkId, clerkId),
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const workers = await workerService.listUserWorkers(user.id);
+
+    return NextResponse.json({
+      // SECURITY: Never echo the webhook secret back
+      workers: workers.map(({ webhookSecret, ...worker }) => ({
+        ...worker,
+        payoutBlockers: getPayoutBlockers(worker),
+      })),
+    });
+  } catch (error) {
+    console.error('My workers fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch workers' },
+      { status: 500 }
+    );
+  }
+}
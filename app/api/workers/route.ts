@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { workerService } from '@/features/workers/service';
+import { fetchConnectAccount } from '@/features/workers/payouts';
 import { db } from '@/lib/db';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -10,7 +11,7 @@ import { rateLimit } from '@/lib/middleware/rate-limit';
 const offerSchema = z.object({
   id: z.string(),
   title: z.string(),
-  priceCents: z.number().min(500), // Minimum $5
+  priceCents: z.number().int().min(500), // Minimum $5
   currency: z.string().default('USD'),
   etaMinutesMin: z.number().min(1),
   etaMinutesMax: z.number().min(1),
@@ -100,6 +101,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Payout status comes from Stripe - onboarding usually finishes before registration,
+    // so the account.updated webhooks have already been and gone
+    let connectStatus = {};
+    if (data.stripeAccountId) {
+      const account = await fetchConnectAccount(data.stripeAccountId);
+
+      // SECURITY: Only link accounts created through this user's Connect onboarding
+      if (account.clerkUserId !== clerkId) {
+        return NextResponse.json({ error: 'Stripe account does not belong to you' }, { status: 403 });
+      }
+
+      connectStatus = account.status;
+    }
+
     const worker = await workerService.registerWorker({
       userId: user.id,
       name: data.name,
@@ -117,6 +132,7 @@ export async function POST(req: NextRequest) {
       apiEndpoint: data.apiEndpoint,
       webhookSecret: data.webhookSecret || null,
       stripeAccountId: data.stripeAccountId || null,
+      ...connectStatus,
       acceptingJobs: data.acceptingJobs,
       maxConcurrentJobs: data.maxConcurrentJobs,
     });
@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import path from 'path';
+import { db, type DbTransaction } from '@/lib/db';
+import { jobArtifacts, type Job, type JobArtifact, type NewJobArtifact } from '@/lib/db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { getStorage } from '@/lib/storage';
+import { ArtifactTooLargeError, InvalidArtifactError } from './errors';
+import { PATCH_ARTIFACT_NAME, validatePatch } from './patch';
+
+/**
+ * Job artifacts
+ *
+ * Delivered files are uploaded to blob storage (lib/storage) under a
+ * content-addressed key, with their SHA-256, size and MIME type recorded in
+ * job_artifacts. Downloads go through GET /api/jobs/[id]/artifacts/[name]
+ * (job owner only) and are checked against the stored hash.
+ */
+
+const MAX_FILE_BYTES = Number(process.env.ARTIFACT_MAX_FILE_BYTES) || 10 * 1024 * 1024;
+const MAX_DELIVERY_BYTES = Number(process.env.ARTIFACT_MAX_DELIVERY_BYTES) || 50 * 1024 * 1024;
+const MAX_FILES_PER_DELIVERY = 200;
+
+// Deliverables are text - anything unknown is served as plain text
+const MIME_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.tsx': 'text/typescript',
+  '.svg': 'image/svg+xml',
+  '.diff': 'text/x-diff',
+  '.patch': 'text/x-diff',
+};
+
+export type UploadedArtifact = Omit<NewJobArtifact, 'jobId' | 'milestoneId'>;
+
+/**
+ * Validate delivered files (and patch) and upload them to storage
+ * Call before the delivery transaction, then record them with saveArtifacts
+ * (or discardArtifacts if the delivery fails)
+ */
+export async function uploadArtifacts(
+  jobId: string,
+  files: Record<string, string>,
+  patch?: string
+): Promise<UploadedArtifact[]> {
+  const entries = Object.entries(files).map(([name, content]) => ({ name, content, kind: 'file' }));
+
+  if (entries.length > MAX_FILES_PER_DELIVERY) {
+    throw new ArtifactTooLargeError(`${entries.length} files (max ${MAX_FILES_PER_DELIVERY})`);
+  }
+
+  if (patch !== undefined) {
+    validatePatch(patch);
+    entries.push({ name: PATCH_ARTIFACT_NAME, content: patch, kind: 'patch' });
+  }
+
+  const names = new Set<string>();
+  let totalBytes = 0;
+
+  const prepared = entries.map(({ name: rawName, content, kind }) => {
+    const name = normalizeArtifactName(rawName);
+
+    if (names.has(name)) {
+      throw new InvalidArtifactError(rawName, 'delivered twice');
+    }
+    names.add(name);
+
+    const data = Buffer.from(content, 'utf-8');
+
+    if (data.length > MAX_FILE_BYTES) {
+      throw new ArtifactTooLargeError(`${name} is ${data.length} bytes (max ${MAX_FILE_BYTES})`);
+    }
+
+    totalBytes += data.length;
+    if (totalBytes > MAX_DELIVERY_BYTES) {
+      throw new ArtifactTooLargeError(`delivery exceeds ${MAX_DELIVERY_BYTES} bytes`);
+    }
+
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+
+    return {
+      name,
+      kind,
+      data,
+      sha256,
+      sizeBytes: data.length,
+      mimeType: getMimeType(name),
+      storageKey: `jobs/${jobId}/${sha256}`,
+    };
+  });
+
+  const storage = getStorage();
+
+  for (const artifact of prepared) {
+    await storage.put(artifact.storageKey, artifact.data, artifact.mimeType);
+  }
+
+  return prepared.map(({ data: _data, ...artifact }) => artifact);
+}
+
+/**
+ * Record uploaded artifacts (in the caller's delivery transaction)
+ * Redelivering a file with the same name replaces it - returns the storage keys
+ * of the replaced rows, to pass to pruneArtifacts once the delivery has committed
+ */
+export async function saveArtifacts(
+  tx: DbTransaction,
+  jobId: string,
+  milestoneId: string | null,
+  artifacts: UploadedArtifact[]
+): Promise<string[]> {
+  if (artifacts.length === 0) {
+    return [];
+  }
+
+  const replaced = await tx
+    .delete(jobArtifacts)
+    .where(
+      and(
+        eq(jobArtifacts.jobId, jobId),
+        inArray(jobArtifacts.name, artifacts.map((a) => a.name))
+      )
+    )
+    .returning({ storageKey: jobArtifacts.storageKey });
+
+  await tx.insert(jobArtifacts).values(artifacts.map((a) => ({ ...a, jobId, milestoneId })));
+
+  return replaced.map((r) => r.storageKey);
+}
+
+/**
+ * Remove uploads whose delivery failed
+ * Keys an earlier delivery still references (same content) are kept
+ */
+export async function discardArtifacts(jobId: string, artifacts: UploadedArtifact[]): Promise<void> {
+  await pruneArtifacts(jobId, artifacts.map((a) => a.storageKey));
+}
+
+/**
+ * Delete blobs that no committed job_artifacts row references any more
+ * (replaced by a redelivery, or uploaded for a delivery that failed)
+ */
+export async function pruneArtifacts(jobId: string, storageKeys: string[]): Promise<void> {
+  if (storageKeys.length === 0) {
+    return;
+  }
+
+  const keys = [...new Set(storageKeys)];
+
+  const referenced = await db
+    .select({ storageKey: jobArtifacts.storageKey })
+    .from(jobArtifacts)
+    .where(and(eq(jobArtifacts.jobId, jobId), inArray(jobArtifacts.storageKey, keys)));
+
+  const keep = new Set(referenced.map((r) => r.storageKey));
+  const storage = getStorage();
+
+  for (const key of keys.filter((k) => !keep.has(k))) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Failed to delete orphaned artifact ${key}:`, error);
+    }
+  }
+}
+
+/**
+ * Artifacts delivered for a job (by name)
+ */
+export async function listArtifacts(jobId: string): Promise<JobArtifact[]> {
+  return await db
+    .select()
+    .from(jobArtifacts)
+    .where(eq(jobArtifacts.jobId, jobId))
+    .orderBy(asc(jobArtifacts.name));
+}
+
+/**
+ * Download one artifact, verifying its content hash
+ * Returns null if the job has no artifact with that name
+ */
+export async function readArtifact(
+  jobId: string,
+  name: string
+): Promise<{ artifact: JobArtifact; data: Buffer } | null> {
+  const artifact = await db.query.jobArtifacts.findFirst({
+    where: and(eq(jobArtifacts.jobId, jobId), eq(jobArtifacts.name, name)),
+  });
+
+  if (!artifact) {
+    return null;
+  }
+
+  const data = await getStorage().get(artifact.storageKey);
+
+  if (!data) {
+    throw new Error(`Artifact ${name} is missing from storage`);
+  }
+
+  // CRITICAL: Never serve content that doesn't match what was delivered
+  const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+  if (sha256 !== artifact.sha256) {
+    throw new Error(`Artifact ${name} failed its integrity check`);
+  }
+
+  return { artifact, data };
+}
+
+/**
+ * A job's delivered files as name -> content (legacy deliveries read from the job row)
+ * Patches aren't included - they only make sense applied to the buyer's workspace
+ */
+export async function readDeliveredFiles(job: Job): Promise<Record<string, string>> {
+  const artifacts = await listArtifacts(job.id);
+
+  if (artifacts.length === 0) {
+    return (job.deliverableFiles as Record<string, string> | null) ?? {};
+  }
+
+  const files: Record<string, string> = {};
+  for (const { name, kind } of artifacts) {
+    if (kind !== 'file') {
+      continue;
+    }
+
+    const result = await readArtifact(job.id, name);
+    if (result) {
+      files[name] = result.data.toString('utf-8');
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Download URL for an artifact (owner-only route)
+ */
+export function getArtifactUrl(jobId: string, name: string): string {
+  return `/api/jobs/${jobId}/artifacts/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Clean relative path for a delivered file
+ * SECURITY: No absolute paths or '..' - names end up in URLs and on disk when applied
+ */
+function normalizeArtifactName(rawName: string): string {
+  const name = path.posix.normalize(rawName.replace(/\\/g, '/')).replace(/^\.\//, '');
+
+  if (!name || name === '.' || name.length > 255 || name.includes('\0')) {
+    throw new InvalidArtifactError(rawName, 'name must be a relative path of 1-255 characters');
+  }
+
+  if (name.startsWith('/') || name.split('/').includes('..')) {
+    throw new InvalidArtifactError(rawName, 'name must stay inside the project');
+  }
+
+  return name;
+}
+
+function getMimeType(name: string): string {
+  const mimeType = MIME_TYPES[path.posix.extname(name).toLowerCase()] ?? 'text/plain';
+  return mimeType.startsWith('text/') ? `${mimeType}; charset=utf-8` : mimeType;
+}
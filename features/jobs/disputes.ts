@@ -0,0 +1,453 @@
+import { db } from '@/lib/db';
+import { withAdvisoryLock, ADVISORY_LOCKS } from '@/lib/db/locks';
+import { disputes, jobs, workers, type Dispute, type Job } from '@/lib/db/schema';
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { walletService } from '@/features/payments/wallet';
+import { auditLogger, SecurityEventType, Severity } from '@/lib/security/audit-logger';
+import { sanitizeText } from '@/lib/sanitize';
+import { formatMoney, toDecimal, toDollars } from '@/lib/money';
+import {
+  DisputeClosedError,
+  DisputeNotFoundError,
+  InvalidJobTransitionError,
+  JobNotFoundError,
+  JobTransitionConflictError,
+} from './errors';
+import { transitionJob, SYSTEM_ACTOR } from './state-machine';
+import { buyerNotifier } from './notifications';
+import { sendWorkerWebhook } from './worker-webhook';
+
+// Worker gets this long to respond before the buyer is refunded in full
+const DISPUTE_RESPONSE_HOURS = Number(process.env.DISPUTE_RESPONSE_HOURS) || 48;
+
+export type DisputeStatus = 'awaiting_worker' | 'awaiting_admin' | 'resolved';
+
+export interface DisputeResponseInput {
+  response: string;
+  evidenceUrls?: string[];
+  evidenceFiles?: Record<string, string>;
+}
+
+export interface DisputeSweepResult {
+  skipped: boolean; // Another run held the lock
+  expired: number;
+  failed: string[]; // Dispute IDs that need manual attention
+}
+
+/**
+ * Disputes
+ *
+ * Buyer rejects a worker's delivery → job moves to disputed and escrow stays locked.
+ * The worker can respond with evidence within DISPUTE_RESPONSE_HOURS; after that an
+ * admin splits the escrow. No response in time = full refund to the buyer.
+ */
+export class DisputeService {
+  /**
+   * Open a dispute for a delivered worker job
+   * Caller has already verified the buyer owns the job
+   */
+  async openDispute(job: Job, userId: string, reason: string): Promise<Job> {
+    if (!job.workerId) {
+      throw new Error('Only worker jobs can be disputed');
+    }
+
+    const workerId = job.workerId;
+    const sanitizedReason = sanitizeText(reason);
+    const responseDeadlineAt = new Date(Date.now() + DISPUTE_RESPONSE_HOURS * 60 * 60 * 1000);
+
+    const { disputedJob, dispute } = await db.transaction(async (tx) => {
+      const disputedJob = await transitionJob(
+        job,
+        'disputed',
+        {
+          actor: { type: 'buyer', id: userId },
+          reason: sanitizedReason,
+          changes: { feedback: sanitizedReason },
+        },
+        tx
+      );
+
+      const [dispute] = await tx
+        .insert(disputes)
+        .values({
+          jobId: job.id,
+          userId,
+          workerId,
+          buyerReason: sanitizedReason,
+          responseDeadlineAt,
+        })
+        .returning();
+
+      return { disputedJob, dispute };
+    });
+
+    await auditLogger.log({
+      eventType: SecurityEventType.DISPUTE_OPENED,
+      severity: Severity.INFO,
+      message: `Buyer disputed delivery of job ${job.id}`,
+      details: { disputeId: dispute.id, buyerId: userId, reason: sanitizedReason },
+      workerId,
+      jobId: job.id,
+    });
+
+    await this.notifyWorkerOfDispute(disputedJob, dispute);
+
+    return disputedJob;
+  }
+
+  /**
+   * Worker responds to a dispute with their side and evidence
+   */
+  async respondToDispute(
+    jobId: string,
+    workerId: string,
+    input: DisputeResponseInput
+  ): Promise<Dispute> {
+    const dispute = await this.getDisputeForJob(jobId);
+
+    if (!dispute) {
+      throw new DisputeNotFoundError(jobId);
+    }
+
+    if (dispute.workerId !== workerId) {
+      throw new Error('Unauthorized: Dispute is not against this worker');
+    }
+
+    if (dispute.status !== 'awaiting_worker') {
+      throw new DisputeClosedError(dispute.id, `already ${dispute.status}`);
+    }
+
+    if (dispute.responseDeadlineAt < new Date()) {
+      throw new DisputeClosedError(dispute.id, 'response window has passed');
+    }
+
+    // CRITICAL: Conditional on status so a late response can't race the expiry sweep
+    const [updated] = await db
+      .update(disputes)
+      .set({
+        status: 'awaiting_admin',
+        workerResponse: sanitizeText(input.response),
+        workerEvidence: {
+          urls: input.evidenceUrls || [],
+          files: input.evidenceFiles || {},
+        },
+        respondedAt: new Date(),
+      })
+      .where(and(eq(disputes.id, dispute.id), eq(disputes.status, 'awaiting_worker')))
+      .returning();
+
+    if (!updated) {
+      throw new DisputeClosedError(dispute.id, 'updated concurrently');
+    }
+
+    await auditLogger.log({
+      eventType: SecurityEventType.DISPUTE_RESPONDED,
+      severity: Severity.INFO,
+      message: `Worker responded to dispute on job ${jobId}`,
+      details: {
+        disputeId: dispute.id,
+        evidenceUrls: input.evidenceUrls?.length || 0,
+        evidenceFiles: Object.keys(input.evidenceFiles || {}).length,
+      },
+      workerId,
+      jobId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Admin settles a dispute by splitting escrow between worker and buyer
+   * CRITICAL: The disputed → resolved transition guards against double resolution
+   */
+  async resolveDispute(
+    disputeId: string,
+    adminId: string,
+    workerSharePercent: number,
+    notes: string
+  ): Promise<Dispute> {
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.id, disputeId),
+    });
+
+    if (!dispute) {
+      throw new DisputeNotFoundError(disputeId);
+    }
+
+    if (dispute.status === 'resolved') {
+      throw new DisputeClosedError(dispute.id, 'already resolved');
+    }
+
+    if (!Number.isInteger(workerSharePercent) || workerSharePercent < 0 || workerSharePercent > 100) {
+      throw new Error('Worker share must be an integer between 0 and 100');
+    }
+
+    const job = await db.query.jobs.findFirst({
+      where: eq(jobs.id, dispute.jobId),
+    });
+
+    if (!job) {
+      throw new JobNotFoundError(dispute.jobId);
+    }
+
+    const sanitizedNotes = sanitizeText(notes);
+
+    // Resolve the job, split escrow and close the dispute together - if the split
+    // fails (frozen worker, Stripe error) the job stays disputed and an admin can retry
+    const { resolvedJob, split, updated } = await db.transaction(async (tx) => {
+      const resolvedJob = await transitionJob(
+        job,
+        'resolved',
+        {
+          actor: { type: 'admin', id: adminId },
+          reason: sanitizedNotes,
+          metadata: { disputeId, workerSharePercent },
+          changes: { completedAt: new Date() },
+          expectedStatus: 'disputed',
+        },
+        tx
+      );
+
+      const split = await walletService.splitEscrow(
+        job.id,
+        dispute.workerId,
+        workerSharePercent,
+        'dispute_resolved',
+        tx
+      );
+
+      if (!split.success) {
+        throw new Error(`Failed to settle dispute: ${split.error}`);
+      }
+
+      const [updated] = await tx
+        .update(disputes)
+        .set({
+          status: 'resolved',
+          workerSharePercent,
+          refundAmount: toDecimal(split.refundCents ?? 0),
+          workerPayout: toDecimal(split.workerPayoutCents ?? 0),
+          resolutionNotes: sanitizedNotes,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        })
+        .where(eq(disputes.id, disputeId))
+        .returning();
+
+      return { resolvedJob, split, updated };
+    });
+
+    await auditLogger.log({
+      eventType: SecurityEventType.DISPUTE_RESOLVED,
+      severity: Severity.INFO,
+      message: `Dispute on job ${job.id} resolved: ${workerSharePercent}% to worker`,
+      details: {
+        disputeId,
+        workerSharePercent,
+        refundAmount: toDollars(split.refundCents ?? 0),
+        workerPayout: toDollars(split.workerPayoutCents ?? 0),
+        notes: sanitizedNotes,
+      },
+      userId: adminId,
+      workerId: dispute.workerId,
+      jobId: job.id,
+    });
+
+    await buyerNotifier.notify(
+      resolvedJob,
+      'dispute_resolved',
+      `Your dispute on "${job.task}" was resolved: ${formatMoney(split.refundCents ?? 0)} refunded to your wallet.`
+    );
+
+    return updated;
+  }
+
+  /**
+   * Refund buyers whose disputes the worker never responded to
+   * IMPORTANT: Safe to run concurrently (advisory lock + state machine guards)
+   */
+  async processExpiredDisputes(): Promise<DisputeSweepResult> {
+    const run = await withAdvisoryLock(ADVISORY_LOCKS.DISPUTE_WINDOWS, async () => {
+      const result: DisputeSweepResult = { skipped: false, expired: 0, failed: [] };
+
+      const expiredDisputes = await db.query.disputes.findMany({
+        where: and(
+          eq(disputes.status, 'awaiting_worker'),
+          lt(disputes.responseDeadlineAt, new Date())
+        ),
+      });
+
+      for (const dispute of expiredDisputes) {
+        try {
+          await this.expireDispute(dispute);
+          result.expired++;
+        } catch (error) {
+          // Worker responded or an admin resolved it since we read it - nothing to do
+          if (
+            error instanceof InvalidJobTransitionError ||
+            error instanceof JobTransitionConflictError ||
+            error instanceof DisputeClosedError
+          ) {
+            continue;
+          }
+
+          console.error(`Failed to expire dispute ${dispute.id}:`, error);
+          result.failed.push(dispute.id);
+        }
+      }
+
+      return result;
+    });
+
+    if (!run.acquired) {
+      return { skipped: true, expired: 0, failed: [] };
+    }
+
+    return run.result;
+  }
+
+  /**
+   * Close an unanswered dispute in the buyer's favour
+   */
+  private async expireDispute(dispute: Dispute): Promise<void> {
+    const job = await db.query.jobs.findFirst({
+      where: eq(jobs.id, dispute.jobId),
+    });
+
+    if (!job) {
+      throw new JobNotFoundError(dispute.jobId);
+    }
+
+    // Close the job, refund escrow and claim the dispute together, so a response or
+    // admin resolution arriving now either wins outright or fails cleanly - and a
+    // failed refund leaves everything open for the next sweep
+    const { rejectedJob, refundCents } = await db.transaction(async (tx) => {
+      const rejectedJob = await transitionJob(
+        job,
+        'rejected',
+        {
+          actor: SYSTEM_ACTOR,
+          reason: 'Dispute response window expired',
+          metadata: { disputeId: dispute.id },
+          changes: { completedAt: new Date() },
+          expectedStatus: 'disputed',
+        },
+        tx
+      );
+
+      // Only what's still escrowed - approved milestones were already paid out
+      const refundResult = await walletService.refundEscrowToWallet(job.id, tx);
+
+      if (!refundResult.success) {
+        throw new Error(`Failed to refund: ${refundResult.error}`);
+      }
+
+      const refundCents = refundResult.refundCents ?? 0;
+
+      const [claimed] = await tx
+        .update(disputes)
+        .set({
+          status: 'resolved',
+          workerSharePercent: 0,
+          refundAmount: toDecimal(refundCents),
+          workerPayout: '0',
+          resolutionNotes: 'Worker did not respond before the deadline',
+          resolvedBy: 'system',
+          resolvedAt: new Date(),
+        })
+        .where(and(eq(disputes.id, dispute.id), eq(disputes.status, 'awaiting_worker')))
+        .returning();
+
+      if (!claimed) {
+        throw new DisputeClosedError(dispute.id, 'updated concurrently');
+      }
+
+      return { rejectedJob, refundCents };
+    });
+
+    await auditLogger.log({
+      eventType: SecurityEventType.DISPUTE_EXPIRED,
+      severity: Severity.INFO,
+      message: `Dispute on job ${job.id} expired without a worker response - buyer refunded`,
+      details: { disputeId: dispute.id, refundAmount: toDollars(refundCents) },
+      workerId: dispute.workerId,
+      jobId: job.id,
+    });
+
+    await buyerNotifier.notify(
+      rejectedJob,
+      'dispute_resolved',
+      `The worker didn't respond to your dispute on "${job.task}" - ${formatMoney(refundCents)} refunded to your wallet.`
+    );
+  }
+
+  /**
+   * Dispute for a job (most recent)
+   */
+  async getDisputeForJob(jobId: string): Promise<Dispute | null> {
+    const dispute = await db.query.disputes.findFirst({
+      where: eq(disputes.jobId, jobId),
+      orderBy: [desc(disputes.createdAt)],
+    });
+
+    return dispute || null;
+  }
+
+  /**
+   * Disputes with their job, for the admin queue (newest first)
+   */
+  async listDisputes(status?: DisputeStatus) {
+    return await db
+      .select({
+        dispute: disputes,
+        job: {
+          id: jobs.id,
+          task: jobs.task,
+          budget: jobs.budget,
+          deliverableText: jobs.deliverableText,
+          deliverableUrl: jobs.deliverableUrl,
+          deliveredAt: jobs.deliveredAt,
+        },
+        workerName: workers.name,
+      })
+      .from(disputes)
+      .innerJoin(jobs, eq(disputes.jobId, jobs.id))
+      .innerJoin(workers, eq(disputes.workerId, workers.id))
+      .where(status ? eq(disputes.status, status) : undefined)
+      .orderBy(desc(disputes.createdAt));
+  }
+
+  /**
+   * Tell the worker a delivery was disputed
+   * Dispute stays open if the worker is unreachable - the expiry sweep handles it
+   */
+  private async notifyWorkerOfDispute(job: Job, dispute: Dispute): Promise<void> {
+    const worker = await db.query.workers.findFirst({
+      where: eq(workers.id, dispute.workerId),
+    });
+
+    if (!worker || !worker.apiEndpoint) {
+      console.error(`Cannot notify worker of dispute ${dispute.id}: endpoint not configured`);
+      return;
+    }
+
+    try {
+      const response = await sendWorkerWebhook(worker, {
+        type: 'dispute_opened',
+        jobId: job.id,
+        disputeId: dispute.id,
+        reason: dispute.buyerReason,
+        respondUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/jobs/${job.id}/dispute-response`,
+        deadline: dispute.responseDeadlineAt,
+      });
+
+      if (!response.ok) {
+        console.error(`Dispute webhook failed for job ${job.id}: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to notify worker of dispute:', error);
+    }
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -0,0 +1,270 @@
+/**
+ * Job errors
+ *
+ * Typed so API routes can map them to the right HTTP status
+ */
+
+export class JobNotFoundError extends Error {
+  constructor(public readonly jobId: string) {
+    super('Job not found');
+    this.name = 'JobNotFoundError';
+  }
+}
+
+/**
+ * Requested status change is not allowed by the state machine
+ */
+export class InvalidJobTransitionError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super(`Cannot move job from ${from} to ${to}`);
+    this.name = 'InvalidJobTransitionError';
+  }
+}
+
+/**
+ * Job status changed between read and write (concurrent transition)
+ */
+export class JobTransitionConflictError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly expectedStatus: string,
+    public readonly to: string
+  ) {
+    super(`Job ${jobId} is no longer ${expectedStatus} - it was updated concurrently`);
+    this.name = 'JobTransitionConflictError';
+  }
+}
+
+/**
+ * Buyer has used every revision included in the offer
+ */
+export class RevisionLimitReachedError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly revisionsIncluded: number
+  ) {
+    super(
+      `No revisions left (${revisionsIncluded} included) - approve or reject the delivery instead`
+    );
+    this.name = 'RevisionLimitReachedError';
+  }
+}
+
+/**
+ * Worker is not active or has stopped accepting jobs
+ */
+export class WorkerUnavailableError extends Error {
+  constructor(public readonly workerId: string, reason: string) {
+    super(`Worker is not available for hire: ${reason}`);
+    this.name = 'WorkerUnavailableError';
+  }
+}
+
+/**
+ * Worker can't be paid yet (Stripe Connect incomplete or payouts frozen)
+ */
+export class WorkerPayoutsNotReadyError extends Error {
+  constructor(public readonly workerId: string, public readonly blockers: string[]) {
+    super(`Worker can't receive payouts yet: ${blockers.join('; ')}`);
+    this.name = 'WorkerPayoutsNotReadyError';
+  }
+}
+
+/**
+ * Worker already has maxConcurrentJobs jobs in flight
+ */
+export class WorkerAtCapacityError extends Error {
+  constructor(
+    public readonly workerId: string,
+    public readonly activeJobs: number,
+    public readonly maxConcurrentJobs: number
+  ) {
+    super(
+      `Worker is at capacity (${activeJobs}/${maxConcurrentJobs} jobs in progress) - try again later or pick another worker`
+    );
+    this.name = 'WorkerAtCapacityError';
+  }
+}
+
+/**
+ * Worker turned the job down when it was offered
+ */
+export class JobDeclinedError extends Error {
+  constructor(public readonly jobId: string, reason: string) {
+    super(`Worker declined the job: ${reason}. Funds refunded.`);
+    this.name = 'JobDeclinedError';
+  }
+}
+
+/**
+ * Progress updates are only accepted while the worker is on the job
+ */
+export class JobNotInProgressError extends Error {
+  constructor(public readonly jobId: string, public readonly status: string) {
+    super(`Job is ${status} - progress can only be reported while it is in_progress`);
+    this.name = 'JobNotInProgressError';
+  }
+}
+
+/**
+ * Milestone action out of order or in the wrong state
+ */
+export class InvalidMilestoneError extends Error {
+  constructor(public readonly jobId: string, reason: string) {
+    super(reason);
+    this.name = 'InvalidMilestoneError';
+  }
+}
+
+/**
+ * No dispute for this job/ID
+ */
+export class DisputeNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super('Dispute not found');
+    this.name = 'DisputeNotFoundError';
+  }
+}
+
+/**
+ * Dispute is not in a state that allows this action (responded, resolved, window closed)
+ */
+export class DisputeClosedError extends Error {
+  constructor(public readonly disputeId: string, reason: string) {
+    super(`Dispute is closed: ${reason}`);
+    this.name = 'DisputeClosedError';
+  }
+}
+
+/**
+ * No job posting with this ID (or it belongs to another buyer)
+ */
+export class PostingNotFoundError extends Error {
+  constructor(public readonly postingId: string) {
+    super('Job posting not found');
+    this.name = 'PostingNotFoundError';
+  }
+}
+
+/**
+ * Posting no longer takes bids or awards (awarded, cancelled, bidding closed)
+ */
+export class PostingClosedError extends Error {
+  constructor(public readonly postingId: string, reason: string) {
+    super(`Job posting is closed: ${reason}`);
+    this.name = 'PostingClosedError';
+  }
+}
+
+/**
+ * No pending bid with this ID on the posting
+ */
+export class BidNotFoundError extends Error {
+  constructor(public readonly bidId: string) {
+    super('Bid not found');
+    this.name = 'BidNotFoundError';
+  }
+}
+
+/**
+ * Bid price is over the posting's budget ceiling
+ */
+export class BidAboveCeilingError extends Error {
+  constructor(public readonly postingId: string, ceiling: string) {
+    super(`Bid exceeds the budget ceiling of ${ceiling}`);
+    this.name = 'BidAboveCeilingError';
+  }
+}
+
+/**
+ * Bid was re-priced after the buyer read it - the buyer has to look again
+ */
+export class BidChangedError extends Error {
+  constructor(public readonly bidId: string, reason: string) {
+    super(`Bid has changed: ${reason}`);
+    this.name = 'BidChangedError';
+  }
+}
+
+/**
+ * Delivered file can't be stored (bad name, duplicate, not text)
+ */
+export class InvalidArtifactError extends Error {
+  constructor(public readonly artifactName: string, reason: string) {
+    super(`Invalid artifact "${artifactName}": ${reason}`);
+    this.name = 'InvalidArtifactError';
+  }
+}
+
+/**
+ * Delivery exceeds the per-file or per-delivery size limit
+ */
+export class ArtifactTooLargeError extends Error {
+  constructor(reason: string) {
+    super(`Deliverable too large: ${reason}`);
+    this.name = 'ArtifactTooLargeError';
+  }
+}
+
+/**
+ * Message looks like it contains a secret (API key, password, private key, ...)
+ */
+export class MessageRejectedError extends Error {
+  constructor(reason: string) {
+    super(`Message not sent: ${reason}`);
+    this.name = 'MessageRejectedError';
+  }
+}
+
+/**
+ * Messages are only accepted while the job has a worker and is still open
+ */
+export class MessageThreadClosedError extends Error {
+  constructor(public readonly jobId: string, reason: string) {
+    super(`Can't message on job ${jobId}: ${reason}`);
+    this.name = 'MessageThreadClosedError';
+  }
+}
+
+/**
+ * Pagination cursor that wasn't returned by a job listing
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * HTTP status for an error thrown by the jobs feature
+ */
+export function getJobErrorStatus(error: unknown): number {
+  if (error instanceof InvalidArtifactError) return 400;
+  if (error instanceof ArtifactTooLargeError) return 413;
+  if (error instanceof MessageRejectedError) return 400;
+  if (error instanceof InvalidCursorError) return 400;
+  if (error instanceof BidAboveCeilingError) return 400;
+  if (error instanceof JobNotFoundError) return 404;
+  if (error instanceof DisputeNotFoundError) return 404;
+  if (error instanceof PostingNotFoundError) return 404;
+  if (error instanceof BidNotFoundError) return 404;
+  if (error instanceof InvalidJobTransitionError) return 409;
+  if (error instanceof JobTransitionConflictError) return 409;
+  if (error instanceof RevisionLimitReachedError) return 409;
+  if (error instanceof WorkerUnavailableError) return 409;
+  if (error instanceof WorkerPayoutsNotReadyError) return 409;
+  if (error instanceof WorkerAtCapacityError) return 409;
+  if (error instanceof JobDeclinedError) return 409;
+  if (error instanceof JobNotInProgressError) return 409;
+  if (error instanceof DisputeClosedError) return 409;
+  if (error instanceof InvalidMilestoneError) return 409;
+  if (error instanceof PostingClosedError) return 409;
+  if (error instanceof BidChangedError) return 409;
+  if (error instanceof MessageThreadClosedError) return 409;
+  return 500;
+}
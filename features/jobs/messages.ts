@@ -0,0 +1,122 @@
+import { db } from '@/lib/db';
+import { jobMessages, workers, type Job, type JobMessage } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { sanitizeText } from '@/lib/sanitize';
+import { secretsScanner } from '@/lib/security/secrets-scanner';
+import { MessageRejectedError, MessageThreadClosedError } from './errors';
+import { isTerminalStatus } from './state-machine';
+import { buyerNotifier } from './notifications';
+import { sendWorkerWebhook } from './worker-webhook';
+
+export type MessageSender =
+  | { type: 'buyer'; userId: string }
+  | { type: 'worker'; workerId: string };
+
+/**
+ * Job messages
+ *
+ * A thread between the buyer and the assigned worker for clarifying the task.
+ * Buyer messages are forwarded to the worker's endpoint as a 'job_message'
+ * webhook; worker messages notify the buyer. Either side can read the whole
+ * thread with GET /api/jobs/[id]/messages.
+ */
+export class MessageService {
+  /**
+   * Post a message to a job's thread
+   * Caller has already authenticated the sender (Clerk session or worker signature)
+   */
+  async sendMessage(job: Job, sender: MessageSender, body: string): Promise<JobMessage> {
+    // CRITICAL: Only the job's buyer and its assigned worker can post
+    if (sender.type === 'buyer' && job.userId !== sender.userId) {
+      throw new Error('Unauthorized: You do not own this job');
+    }
+    if (sender.type === 'worker' && job.workerId !== sender.workerId) {
+      throw new Error('Unauthorized: Job is not assigned to this worker');
+    }
+
+    if (!job.workerId) {
+      throw new MessageThreadClosedError(job.id, 'job has no worker');
+    }
+
+    if (isTerminalStatus(job.status)) {
+      throw new MessageThreadClosedError(job.id, `job is ${job.status}`);
+    }
+
+    // SECURITY: Messages are stored and forwarded - keep credentials out of them
+    const scan = secretsScanner.scanFileContent(body, 'message');
+    if (!scan.safe) {
+      throw new MessageRejectedError('it looks like it contains a credential - share secrets out of band');
+    }
+
+    const [message] = await db
+      .insert(jobMessages)
+      .values({
+        jobId: job.id,
+        senderType: sender.type,
+        senderId: sender.type === 'buyer' ? sender.userId : sender.workerId,
+        body: sanitizeText(body),
+      })
+      .returning();
+
+    if (sender.type === 'buyer') {
+      return await this.forwardToWorker(job, message);
+    }
+
+    await buyerNotifier.notify(job, 'worker_message', `The worker sent a message about "${job.task}": ${message.body}`);
+
+    return message;
+  }
+
+  /**
+   * A job's thread, oldest first
+   */
+  async getMessages(jobId: string): Promise<JobMessage[]> {
+    return await db.query.jobMessages.findMany({
+      where: eq(jobMessages.jobId, jobId),
+      orderBy: [asc(jobMessages.createdAt)],
+    });
+  }
+
+  /**
+   * Send a buyer message to the worker's endpoint
+   * Never throws - the message is saved either way and the worker can read the thread
+   */
+  private async forwardToWorker(job: Job, message: JobMessage): Promise<JobMessage> {
+    try {
+      const worker = await db.query.workers.findFirst({
+        where: eq(workers.id, job.workerId!),
+      });
+
+      if (!worker?.apiEndpoint) {
+        return message;
+      }
+
+      const response = await sendWorkerWebhook(worker, {
+        type: 'job_message',
+        jobId: job.id,
+        messageId: message.id,
+        body: message.body,
+        sentAt: message.createdAt,
+        messagesUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/jobs/${job.id}/messages`,
+      });
+
+      if (!response.ok) {
+        console.error(`Message forward failed (job ${job.id}, message ${message.id}): ${response.statusText}`);
+        return message;
+      }
+
+      const [forwarded] = await db
+        .update(jobMessages)
+        .set({ forwardedAt: new Date() })
+        .where(eq(jobMessages.id, message.id))
+        .returning();
+
+      return forwarded;
+    } catch (error) {
+      console.error(`Message forward failed (job ${job.id}, message ${message.id}):`, error);
+      return message;
+    }
+  }
+}
+
+export const messageService = new MessageService();
@@ -0,0 +1,88 @@
+import { db, type DbTransaction } from '@/lib/db';
+import { jobMilestones, type JobMilestone } from '@/lib/db/schema';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import { formatMoney, fromDollars, toDecimal, type Cents } from '@/lib/money';
+
+/**
+ * Job milestones
+ *
+ * A worker job can be split into ordered milestones that add up to its budget.
+ * Each one is delivered and approved on its own, releasing its share of escrow;
+ * the final milestone is the job's delivery (review window, approval, disputes).
+ */
+
+export interface MilestoneInput {
+  title: string;
+  description?: string;
+  amount: number; // Dollars - all milestones must add up to the job budget
+}
+
+/**
+ * Check milestone amounts add up to the job budget (to the cent)
+ */
+export function validateMilestones(milestones: MilestoneInput[], budgetCents: Cents): void {
+  if (milestones.some((m) => fromDollars(m.amount) <= 0)) {
+    throw new Error('Every milestone needs a positive amount');
+  }
+
+  const totalCents = milestones.reduce((sum, m) => sum + fromDollars(m.amount), 0);
+
+  if (totalCents !== budgetCents) {
+    throw new Error(
+      `Milestones add up to ${formatMoney(totalCents)} but the job budget is ${formatMoney(budgetCents)}`
+    );
+  }
+}
+
+/**
+ * Create a job's milestones (in the caller's job-creation transaction)
+ */
+export async function createMilestones(
+  tx: DbTransaction,
+  jobId: string,
+  milestones: MilestoneInput[]
+): Promise<JobMilestone[]> {
+  return await tx
+    .insert(jobMilestones)
+    .values(
+      milestones.map((m, index) => ({
+        jobId,
+        position: index + 1,
+        title: m.title,
+        description: m.description,
+        amount: toDecimal(fromDollars(m.amount)),
+      }))
+    )
+    .returning();
+}
+
+/**
+ * A job's milestones in delivery order (empty for regular jobs)
+ */
+export async function getJobMilestones(
+  jobId: string,
+  tx: DbTransaction | typeof db = db
+): Promise<JobMilestone[]> {
+  return await tx
+    .select()
+    .from(jobMilestones)
+    .where(eq(jobMilestones.jobId, jobId))
+    .orderBy(asc(jobMilestones.position));
+}
+
+/**
+ * Milestone the worker is on: the first one not yet approved
+ */
+export function getCurrentMilestone(milestones: JobMilestone[]): JobMilestone | null {
+  return milestones.find((m) => m.status !== 'approved') ?? null;
+}
+
+/**
+ * Mark every remaining milestone approved (the job itself was approved)
+ */
+export async function approveRemainingMilestones(jobId: string): Promise<void> {
+  await db
+    .update(jobMilestones)
+    .set({ status: 'approved', approvedAt: new Date() })
+    .where(and(eq(jobMilestones.jobId, jobId), ne(jobMilestones.status, 'approved')));
+}
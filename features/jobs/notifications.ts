@@ -0,0 +1,64 @@
+import { db } from '@/lib/db';
+import { users, type Job } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Buyer notification types
+ */
+export type BuyerNotificationType =
+  | 'review_reminder'
+  | 'job_auto_approved'
+  | 'milestone_auto_approved'
+  | 'dispute_resolved'
+  | 'worker_message';
+
+/**
+ * Buyer notifications
+ *
+ * Sent to NOTIFICATIONS_WEBHOOK_URL (email relay, Slack, etc.) when configured,
+ * logged otherwise so dev setups work without one
+ */
+class BuyerNotifier {
+  /**
+   * Notify the buyer of a job
+   * Never throws - a failed notification must not block the job flow
+   */
+  async notify(job: Job, type: BuyerNotificationType, message: string): Promise<void> {
+    try {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, job.userId),
+      });
+
+      if (!user) {
+        return;
+      }
+
+      const webhookUrl = process.env.NOTIFICATIONS_WEBHOOK_URL;
+
+      if (!webhookUrl) {
+        console.log(`[NOTIFY] ${type} → ${user.email}: ${message}`);
+        return;
+      }
+
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          to: user.email,
+          jobId: job.id,
+          task: job.task,
+          message,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`Buyer notification failed (${type}, job ${job.id}): ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error(`Buyer notification failed (${type}, job ${job.id}):`, error);
+    }
+  }
+}
+
+export const buyerNotifier = new BuyerNotifier();
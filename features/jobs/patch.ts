@@ -0,0 +1,140 @@
+import path from 'path';
+import { InvalidArtifactError } from './errors';
+
+/**
+ * Patch deliverables
+ *
+ * Workers can deliver code as a unified diff (`git diff` / `diff -u` output)
+ * instead of whole files. The patch is checked for structure here - file
+ * headers, safe paths and hunk line counts - and applied by the buyer's MCP
+ * server (apply_delivery), which checks it against their workspace.
+ */
+
+// Stored as a job artifact under this name
+export const PATCH_ARTIFACT_NAME = 'delivery.patch';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Check a unified diff is well-formed
+ * Returns the paths it touches; throws InvalidArtifactError otherwise
+ */
+export function validatePatch(patch: string): string[] {
+  const lines = patch.split('\n');
+  const paths: string[] = [];
+  let i = 0;
+
+  const fail = (reason: string): never => {
+    throw new InvalidArtifactError(PATCH_ARTIFACT_NAME, `line ${i + 1}: ${reason}`);
+  };
+
+  while (i < lines.length) {
+    // Anything between files (diff --git, index, mode lines) is ignored
+    if (!lines[i].startsWith('--- ')) {
+      i++;
+      continue;
+    }
+
+    const oldPath = parsePatchPath(lines[i].slice(4));
+    i++;
+
+    if (!lines[i]?.startsWith('+++ ')) {
+      fail('expected "+++" after "---"');
+    }
+
+    const newPath = parsePatchPath(lines[i].slice(4));
+    i++;
+
+    if (oldPath === null && newPath === null) {
+      fail('both sides are /dev/null');
+    }
+
+    for (const filePath of [oldPath, newPath]) {
+      if (filePath !== null && !isSafePath(filePath)) {
+        fail(`path "${filePath}" must be relative and stay inside the project`);
+      }
+    }
+
+    // A second section for the same file would overwrite the first one when applied
+    const filePath = path.posix.normalize((newPath ?? oldPath)!);
+    if (paths.some((p) => path.posix.normalize(p) === filePath)) {
+      fail(`"${filePath}" appears in more than one file section`);
+    }
+
+    paths.push((newPath ?? oldPath)!);
+
+    let hunks = 0;
+
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const header = HUNK_HEADER.exec(lines[i]);
+      if (!header) {
+        fail(`malformed hunk header "${lines[i]}"`);
+      }
+
+      let oldRemaining = header![2] === undefined ? 1 : Number(header![2]);
+      let newRemaining = header![4] === undefined ? 1 : Number(header![4]);
+      i++;
+
+      while (oldRemaining > 0 || newRemaining > 0) {
+        if (i >= lines.length) {
+          fail('hunk ends early');
+        }
+
+        const line = lines[i];
+
+        // Some tools strip the space from empty context lines
+        if (line === '' || line.startsWith(' ')) {
+          oldRemaining--;
+          newRemaining--;
+        } else if (line.startsWith('-')) {
+          oldRemaining--;
+        } else if (line.startsWith('+')) {
+          newRemaining--;
+        } else if (!line.startsWith('\\')) {
+          fail('hunk has fewer lines than its header says');
+        }
+
+        if (oldRemaining < 0 || newRemaining < 0) {
+          fail('hunk has more lines than its header says');
+        }
+
+        i++;
+      }
+
+      // "\ No newline at end of file" can follow the last line
+      if (lines[i]?.startsWith('\\')) {
+        i++;
+      }
+
+      hunks++;
+    }
+
+    if (hunks === 0) {
+      fail(`no hunks for ${(newPath ?? oldPath)!}`);
+    }
+  }
+
+  if (paths.length === 0) {
+    throw new InvalidArtifactError(PATCH_ARTIFACT_NAME, 'not a unified diff (no "---"/"+++" file headers)');
+  }
+
+  return paths;
+}
+
+/**
+ * Path from a ---/+++ header (a/ and b/ prefixes and timestamps removed, null for /dev/null)
+ */
+function parsePatchPath(header: string): string | null {
+  const filePath = header.split('\t')[0].trim();
+
+  if (filePath === '/dev/null') {
+    return null;
+  }
+
+  return filePath.replace(/^[ab]\//, '');
+}
+
+function isSafePath(filePath: string): boolean {
+  const normalized = path.posix.normalize(filePath);
+  return normalized !== '' && !normalized.startsWith('/') && !normalized.split('/').includes('..');
+}
@@ -0,0 +1,113 @@
+import { db } from '@/lib/db';
+import { jobs, type Job } from '@/lib/db/schema';
+import { and, desc, eq, gte, inArray, lt, lte, sql, type SQL } from 'drizzle-orm';
+import { z } from 'zod';
+import { JOB_STATUSES, type JobStatus } from '@/lib/types/job';
+import { InvalidCursorError } from './errors';
+
+/**
+ * Job listings
+ *
+ * Newest first, paged with an opaque cursor (the last job's ID - the next page
+ * starts strictly after its (created_at, id), so inserts never shift a page).
+ * `query` is Postgres full-text search over the task and buyer feedback.
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface JobFilters {
+  status?: JobStatus[];
+  type?: 'skill' | 'worker';
+  createdAfter?: Date;
+  createdBefore?: Date;
+  workerId?: string;
+  skillId?: string;
+  minBudget?: number; // Dollars, inclusive
+  maxBudget?: number;
+  query?: string; // Full-text search over task and feedback
+  cursor?: string; // nextCursor from the previous page
+  limit?: number; // Default 20, max 100
+}
+
+/**
+ * Filters from a listing's query string (?status=posted,delivered&q=auth&limit=50 ...)
+ */
+export const jobFiltersSchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(JOB_STATUSES)))
+    .optional(),
+  type: z.enum(['skill', 'worker']).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  workerId: z.string().uuid().optional(),
+  skillId: z.string().max(100).optional(),
+  minBudget: z.coerce.number().min(0).optional(),
+  maxBudget: z.coerce.number().min(0).optional(),
+  q: z.string().max(200).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+}).transform(({ q, ...filters }): JobFilters => ({ ...filters, query: q }));
+
+export interface JobPage {
+  jobs: Job[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Whose jobs are listed - a buyer's, or the ones assigned to a worker
+export type JobListingScope = { userId: string } | { workerId: string };
+
+/**
+ * One page of jobs matching the filters
+ */
+export async function searchJobs(scope: JobListingScope, filters: JobFilters = {}): Promise<JobPage> {
+  const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const conditions: SQL[] = [
+    'userId' in scope ? eq(jobs.userId, scope.userId) : eq(jobs.workerId, scope.workerId),
+  ];
+
+  if (filters.status?.length) conditions.push(inArray(jobs.status, filters.status));
+  if (filters.type) conditions.push(eq(jobs.type, filters.type));
+  if (filters.createdAfter) conditions.push(gte(jobs.createdAt, filters.createdAfter));
+  if (filters.createdBefore) conditions.push(lt(jobs.createdAt, filters.createdBefore));
+  if (filters.workerId) conditions.push(eq(jobs.workerId, filters.workerId));
+  if (filters.skillId) conditions.push(eq(jobs.skillId, filters.skillId));
+  if (filters.minBudget !== undefined) conditions.push(gte(jobs.budget, filters.minBudget.toFixed(2)));
+  if (filters.maxBudget !== undefined) conditions.push(lte(jobs.budget, filters.maxBudget.toFixed(2)));
+
+  if (filters.query?.trim()) {
+    conditions.push(
+      sql`to_tsvector('english', ${jobs.task} || ' ' || coalesce(${jobs.feedback}, '')) @@ websearch_to_tsquery('english', ${filters.query.trim()})`
+    );
+  }
+
+  if (filters.cursor) {
+    if (!UUID.test(filters.cursor)) {
+      throw new InvalidCursorError(filters.cursor);
+    }
+
+    conditions.push(
+      sql`(${jobs.createdAt}, ${jobs.id}) < (SELECT created_at, id FROM jobs WHERE id = ${filters.cursor})`
+    );
+  }
+
+  // One extra row tells us whether there's another page
+  const rows = await db
+    .select()
+    .from(jobs)
+    .where(and(...conditions))
+    .orderBy(desc(jobs.createdAt), desc(jobs.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+
+  return {
+    jobs: page,
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+  };
+}
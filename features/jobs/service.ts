@@ -1,28 +1,152 @@
-import { db } from '@/lib/db';
-import { jobs, workers, type Job, type NewJob } from '@/lib/db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { db, type DbTransaction } from '@/lib/db';
+import { withAdvisoryLock, ADVISORY_LOCKS } from '@/lib/db/locks';
+import {
+  jobs,
+  jobMilestones,
+  jobProgress,
+  workers,
+  type Job,
+  type JobMilestone,
+  type JobProgress,
+  type NewJob,
+  type Worker,
+} from '@/lib/db/schema';
+import { and, asc, desc, eq, inArray, lte, sql } from 'drizzle-orm';
 import { walletService } from '@/features/payments/wallet';
 import { workerService } from '@/features/workers/service';
+import { getPayoutBlockers } from '@/features/workers/payouts';
+import { fromDecimal, fromDollars, toDecimal, toDollars, type Cents } from '@/lib/money';
 import { sanitizeText } from '@/lib/sanitize';
 import { secretsScanner } from '@/lib/security/secrets-scanner';
-import { signWebhookWithTimestamp } from '@/lib/security/webhook-crypto';
+import type { WorkerOffer } from '@/lib/types/worker';
+import { ACTIVE_JOB_STATUSES } from '@/lib/types/job';
+import {
+  InvalidJobTransitionError,
+  InvalidMilestoneError,
+  JobDeclinedError,
+  JobNotFoundError,
+  JobNotInProgressError,
+  JobTransitionConflictError,
+  RevisionLimitReachedError,
+  WorkerAtCapacityError,
+  WorkerPayoutsNotReadyError,
+  WorkerUnavailableError,
+} from './errors';
+import {
+  canTransition,
+  transitionJob,
+  recordJobCreated,
+  getJobEvents,
+  SYSTEM_ACTOR,
+  type JobActor,
+  type TransitionOptions,
+} from './state-machine';
+import { buyerNotifier } from './notifications';
+import { disputeService } from './disputes';
+import {
+  approveRemainingMilestones,
+  createMilestones,
+  getCurrentMilestone,
+  getJobMilestones,
+  validateMilestones,
+  type MilestoneInput,
+} from './milestones';
+import { sendWorkerWebhook } from './worker-webhook';
+import { discardArtifacts, pruneArtifacts, saveArtifacts, uploadArtifacts, type UploadedArtifact } from './artifacts';
+import { searchJobs, type JobFilters, type JobPage } from './search';
+
+// Buyers get this long to review a delivery before it's auto-approved
+const DEFAULT_REVIEW_WINDOW_HOURS = Number(process.env.REVIEW_WINDOW_HOURS) || 72;
+// Reminder goes out this long before auto-approval
+const REVIEW_REMINDER_HOURS = Number(process.env.REVIEW_REMINDER_HOURS) || 24;
+// Buyers always get at least this long between the reminder and auto-approval
+const REVIEW_REMINDER_GRACE_HOURS = Number(process.env.REVIEW_REMINDER_GRACE_HOURS) || 12;
+// Share of the budget the worker keeps when the buyer cancels an accepted job (0 = always full refund)
+const KILL_FEE_PERCENT = parseKillFeePercent(process.env.KILL_FEE_PERCENT);
+
+/**
+ * Fail at startup on a misconfigured kill fee rather than mis-splitting escrow later
+ */
+function parseKillFeePercent(raw: string | undefined): number {
+  if (raw === undefined || raw.trim() === '') {
+    return 25;
+  }
+
+  const percent = Number(raw);
+
+  if (Number.isNaN(percent) || percent < 0 || percent > 100) {
+    throw new Error(`KILL_FEE_PERCENT must be a number from 0 to 100, got "${raw}"`);
+  }
+
+  return percent;
+}
 
 export interface CreateJobInput {
   userId: string;
   type: 'skill' | 'worker';
   skillId?: string;
   workerId?: string;
+  offerId?: string; // Worker jobs: price, timeout and revisions come from this offer
+  bidTerms?: WorkerOffer; // Awarded bids: used instead of offerId (see features/postings)
   task: string;
   inputs?: Record<string, any>;
   context?: Record<string, any>;
-  budget: number;
+  budget?: number; // Skill jobs only
+  queueIfBusy?: boolean; // Worker at capacity: queue the job instead of failing
+  reviewWindowHours?: number; // Defaults to REVIEW_WINDOW_HOURS
+  milestones?: MilestoneInput[]; // Worker jobs only - must add up to the offer price
+  pipelineId?: string; // Pipeline steps: escrow comes from the pipeline reserve, not the wallet
+  reservedPriceCents?: Cents; // Pipeline worker steps: price reserved at pipeline creation, instead of the offer's current price
 }
 
 export interface DeliverJobInput {
   jobId: string;
+  milestoneId?: string; // Required for milestone jobs
   deliverableText?: string;
   deliverableUrl?: string;
   deliverableFiles?: Record<string, string>;
+  deliverablePatch?: string; // Unified diff, applied locally with the MCP apply_delivery tool
+}
+
+export interface ProgressUpdateInput {
+  jobId: string;
+  workerId: string;
+  percent: number; // 0-100
+  message: string;
+  artifactText?: string;
+  artifactUrl?: string;
+  artifactFiles?: Record<string, string>;
+}
+
+/**
+ * Optional body a worker can answer the job webhook with
+ * No decision = job stays posted until the worker accepts, declines or delivers
+ */
+interface WorkerWebhookReply {
+  decision?: 'accept' | 'decline';
+  reason?: string; // Declines only
+}
+
+export interface CancellationResult {
+  job: Job;
+  refundAmount: number; // Back to the buyer's wallet
+  workerPayout: number; // Kill fee paid to the worker (after platform fee)
+}
+
+export interface TimeoutSweepResult {
+  skipped: boolean; // Another run held the lock
+  checked: number;
+  cancelled: number;
+  refunded: number;
+  failed: string[]; // Job IDs that need manual attention
+}
+
+export interface ReviewSweepResult {
+  skipped: boolean; // Another run held the lock
+  reminded: number;
+  autoApproved: number;
+  milestonesAutoApproved: number;
+  failed: string[]; // Job IDs that need manual attention
 }
 
 export class JobService {
@@ -31,70 +155,271 @@ export class JobService {
    */
   async createJob(input: CreateJobInput): Promise<Job> {
     // Validate input
-    if (input.type === 'worker' && !input.workerId) {
-      throw new Error('Worker ID required for worker jobs');
+    if (input.type === 'worker' && (!input.workerId || (!input.offerId && !input.bidTerms))) {
+      throw new Error('Worker ID and offer ID required for worker jobs');
     }
     if (input.type === 'skill' && !input.skillId) {
       throw new Error('Skill ID required for skill jobs');
     }
-
-    // Generate unique temp ID to avoid race conditions
-    const tempJobId = `temp_${crypto.randomUUID()}`;
-
-    // Lock funds in escrow with unique temp ID
-    const lockResult = await walletService.lockFundsForJob(
-      input.userId,
-      tempJobId,
-      input.budget
-    );
-
-    if (!lockResult.success) {
-      throw new Error(lockResult.error || 'Failed to lock funds');
+    if (input.type === 'skill' && input.budget === undefined) {
+      throw new Error('Budget required for skill jobs');
     }
 
-    // Calculate timeout (worker's p90 * 2)
-    let timeoutAt: Date | null = null;
-    if (input.type === 'worker' && input.workerId) {
+    // Worker jobs: price, timeout and revisions come from the offer (or the awarded bid)
+    let offer: WorkerOffer | null = input.bidTerms ?? null;
+    let budgetCents = offer ? offer.priceCents : fromDollars(input.budget ?? 0);
+    if (input.type === 'worker' && input.workerId && input.offerId && !input.bidTerms) {
       const worker = await db.query.workers.findFirst({
         where: eq(workers.id, input.workerId),
       });
 
-      if (worker) {
-        const timeoutMinutes = worker.p90CompletionTime * 2;
-        timeoutAt = new Date(Date.now() + timeoutMinutes * 60 * 1000);
+      if (!worker) {
+        throw new Error('Worker not found');
+      }
+
+      offer = this.findOffer(worker, input.offerId);
+      budgetCents = offer.priceCents;
+
+      // Charge exactly what the pipeline reserved, even if the worker re-priced since
+      if (input.pipelineId && input.reservedPriceCents !== undefined) {
+        offer = { ...offer, priceCents: input.reservedPriceCents };
+        budgetCents = input.reservedPriceCents;
       }
     }
 
-    // Create job
-    const [job] = await db
-      .insert(jobs)
-      .values({
-        userId: input.userId,
-        type: input.type,
-        skillId: input.skillId,
-        workerId: input.workerId,
-        task: input.task,
-        inputs: input.inputs,
-        context: input.context,
-        budget: input.budget.toString(),
-        status: input.type === 'skill' ? 'in_progress' : 'posted',
-        timeoutAt,
-      })
-      .returning();
+    if (input.milestones?.length) {
+      if (input.type !== 'worker') {
+        throw new Error('Milestones are only supported for worker jobs');
+      }
+      validateMilestones(input.milestones, budgetCents);
+    }
 
-    // Update escrow with actual job ID (safe - unique temp ID per request)
-    await db.execute(
-      sql`UPDATE escrow SET job_id = ${job.id} WHERE job_id = ${tempJobId}`
-    );
+    // Reserve worker slot, create job and lock funds atomically
+    // (any failure rolls back the whole thing - no orphaned escrow)
+    // Queued jobs keep their escrow locked but get no deadline until they start
+    const job = await db.transaction(async (tx) => {
+      let queued = false;
+      if (input.type === 'worker' && input.workerId) {
+        queued = await this.reserveWorkerSlot(tx, input.workerId, input.queueIfBusy ?? false);
+      }
+
+      const status = input.type === 'skill' ? 'in_progress' : queued ? 'queued' : 'posted';
+
+      const [job] = await tx
+        .insert(jobs)
+        .values({
+          userId: input.userId,
+          type: input.type,
+          skillId: input.skillId,
+          workerId: input.workerId,
+          // Snapshot the offer so later profile edits can't change what the buyer agreed to
+          offerId: offer?.id,
+          offerSnapshot: offer,
+          pipelineId: input.pipelineId,
+          task: input.task,
+          inputs: input.inputs,
+          context: input.context,
+          budget: toDecimal(budgetCents),
+          status,
+          revisionsIncluded: offer?.revisionsIncluded ?? 0,
+          reviewWindowHours: input.reviewWindowHours ?? DEFAULT_REVIEW_WINDOW_HOURS,
+          timeoutAt: offer && !queued ? this.getTimeoutAt(offer) : null,
+          queuedAt: queued ? new Date() : null,
+        })
+        .returning();
 
-    // If worker job, send webhook notification
-    if (input.type === 'worker' && input.workerId) {
+      const lockResult = input.pipelineId
+        ? await walletService.lockPipelineFundsForJob(input.pipelineId, job.id, budgetCents, tx)
+        : await walletService.lockFundsForJob(input.userId, job.id, budgetCents, tx);
+
+      if (!lockResult.success) {
+        throw new Error(lockResult.error || 'Failed to lock funds');
+      }
+
+      if (input.milestones?.length) {
+        await createMilestones(tx, job.id, input.milestones);
+      }
+
+      await recordJobCreated(job, { type: 'buyer', id: input.userId }, tx);
+
+      return job;
+    });
+
+    // If worker job, send webhook notification (queued jobs are sent when they start)
+    if (job.type === 'worker' && job.status === 'posted') {
       await this.notifyWorker(job);
     }
 
     return job;
   }
 
+  /**
+   * Check worker can take another job
+   * Returns true if the job must be queued (only when allowQueue is set)
+   * CRITICAL: Locks the worker row so concurrent hires are counted one at a time
+   */
+  private async reserveWorkerSlot(
+    tx: DbTransaction,
+    workerId: string,
+    allowQueue: boolean
+  ): Promise<boolean> {
+    const { worker, activeJobs, queuedJobs } = await this.lockWorkerLoad(tx, workerId);
+
+    if (worker.status !== 'active') {
+      throw new WorkerUnavailableError(workerId, `worker is ${worker.status}`);
+    }
+
+    if (!worker.acceptingJobs) {
+      throw new WorkerUnavailableError(workerId, 'worker is not accepting jobs');
+    }
+
+    // Don't take the buyer's money for a job we couldn't pay out
+    const payoutBlockers = getPayoutBlockers(worker);
+    if (payoutBlockers.length > 0) {
+      throw new WorkerPayoutsNotReadyError(workerId, payoutBlockers);
+    }
+
+    // Jobs already waiting go first (FIFO), even if a slot just freed up
+    if (activeJobs < worker.maxConcurrentJobs && queuedJobs === 0) {
+      return false;
+    }
+
+    if (!allowQueue) {
+      throw new WorkerAtCapacityError(workerId, activeJobs, worker.maxConcurrentJobs);
+    }
+
+    return true;
+  }
+
+  /**
+   * Lock worker row and count its in-flight and queued jobs
+   */
+  private async lockWorkerLoad(tx: DbTransaction, workerId: string) {
+    const [worker] = await tx
+      .select()
+      .from(workers)
+      .where(eq(workers.id, workerId))
+      .for('update');
+
+    if (!worker) {
+      throw new Error('Worker not found');
+    }
+
+    const [{ activeJobs, queuedJobs }] = await tx
+      .select({
+        activeJobs: sql<number>`count(*) FILTER (WHERE ${inArray(jobs.status, ACTIVE_JOB_STATUSES)})`,
+        queuedJobs: sql<number>`count(*) FILTER (WHERE ${jobs.status} = 'queued')`,
+      })
+      .from(jobs)
+      .where(eq(jobs.workerId, workerId));
+
+    return { worker, activeJobs: Number(activeJobs), queuedJobs: Number(queuedJobs) };
+  }
+
+  /**
+   * Start the worker's oldest queued job if a slot is free
+   * Called whenever one of the worker's jobs finishes
+   */
+  async startNextQueuedJob(workerId: string): Promise<Job | null> {
+    const nextJob = await db.transaction(async (tx) => {
+      const { worker, activeJobs } = await this.lockWorkerLoad(tx, workerId);
+
+      if (activeJobs >= worker.maxConcurrentJobs) {
+        return null;
+      }
+
+      const [queuedJob] = await tx
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.workerId, workerId), eq(jobs.status, 'queued')))
+        .orderBy(asc(jobs.queuedAt))
+        .limit(1);
+
+      if (!queuedJob) {
+        return null;
+      }
+
+      const offer = queuedJob.offerSnapshot as WorkerOffer | null;
+
+      return await transitionJob(
+        queuedJob,
+        'posted',
+        {
+          actor: SYSTEM_ACTOR,
+          reason: 'Worker slot freed up',
+          changes: { timeoutAt: offer ? this.getTimeoutAt(offer) : null },
+        },
+        tx
+      );
+    });
+
+    if (nextJob) {
+      await this.notifyWorker(nextJob);
+    }
+
+    return nextJob;
+  }
+
+  /**
+   * Position of a queued job in its worker's queue (1 = next up)
+   */
+  async getQueuePosition(job: Job): Promise<number | null> {
+    if (job.status !== 'queued' || !job.workerId || !job.queuedAt) {
+      return null;
+    }
+
+    const [{ position }] = await db
+      .select({ position: sql<number>`count(*)` })
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.workerId, job.workerId),
+          eq(jobs.status, 'queued'),
+          lte(jobs.queuedAt, job.queuedAt)
+        )
+      );
+
+    return Number(position);
+  }
+
+  /**
+   * Free the worker slot held by a finished job
+   * Never fails the caller - the finished job's outcome already stands
+   */
+  private async releaseWorkerSlot(job: Job): Promise<void> {
+    if (!job.workerId) {
+      return;
+    }
+
+    try {
+      await this.startNextQueuedJob(job.workerId);
+    } catch (error) {
+      console.error(`Failed to start next queued job for worker ${job.workerId}:`, error);
+    }
+  }
+
+  /**
+   * Delivery deadline for an offer (max ETA * 2)
+   */
+  private getTimeoutAt(offer: WorkerOffer): Date {
+    const timeoutMinutes = offer.etaMinutesMax * 2;
+    return new Date(Date.now() + timeoutMinutes * 60 * 1000);
+  }
+
+  /**
+   * Look up one of the worker's current offers
+   */
+  private findOffer(worker: Worker, offerId: string): WorkerOffer {
+    const offers = (worker.offers as WorkerOffer[] | null) || [];
+    const offer = offers.find((o) => o.id === offerId);
+
+    if (!offer) {
+      throw new Error(`Offer ${offerId} not found for worker ${worker.name}`);
+    }
+
+    return offer;
+  }
+
   /**
    * Get job by ID
    */
@@ -106,6 +431,142 @@ export class JobService {
     return job || null;
   }
 
+  /**
+   * Get job status history (for support / forensics)
+   */
+  async getJobHistory(jobId: string) {
+    return await getJobEvents(jobId);
+  }
+
+  /**
+   * Worker accepts a posted job
+   * IMPORTANT: Idempotent - returns the job if it's already underway
+   */
+  async acceptJob(jobId: string, workerId: string): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    if (job.workerId !== workerId) {
+      throw new Error('Unauthorized: Job is not assigned to this worker');
+    }
+
+    // IDEMPOTENT: Already accepted (or delivered without accepting first)
+    if (job.status === 'in_progress' || job.status === 'delivered') {
+      return job;
+    }
+
+    return await transitionJob(job, 'in_progress', {
+      actor: { type: 'worker', id: workerId },
+      reason: 'Worker accepted job',
+      changes: { acceptedAt: new Date() },
+    });
+  }
+
+  /**
+   * Worker declines a posted job
+   * Buyer gets a full refund and the worker's slot goes to the next queued job
+   */
+  async declineJob(jobId: string, workerId: string, reason: string): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    if (job.workerId !== workerId) {
+      throw new Error('Unauthorized: Job is not assigned to this worker');
+    }
+
+    // IDEMPOTENT: Already declined
+    if (job.status === 'declined') {
+      return job;
+    }
+
+    const sanitizedReason = sanitizeText(reason);
+
+    // CRITICAL: A failed refund rolls the decline back
+    const updatedJob = await db.transaction(async (tx) => {
+      const declinedJob = await transitionJob(
+        job,
+        'declined',
+        {
+          actor: { type: 'worker', id: workerId },
+          reason: sanitizedReason,
+          changes: {
+            feedback: sanitizedReason,
+            completedAt: new Date(),
+          },
+        },
+        tx
+      );
+
+      // Refund escrowed funds to wallet
+      const refundResult = await walletService.refundEscrowToWallet(jobId, tx);
+
+      if (!refundResult.success) {
+        throw new Error(`Failed to refund: ${refundResult.error}`);
+      }
+
+      return declinedJob;
+    });
+
+    await this.releaseWorkerSlot(updatedJob);
+
+    return updatedJob;
+  }
+
+  /**
+   * Worker reports progress on an accepted job
+   */
+  async recordProgress(input: ProgressUpdateInput): Promise<JobProgress> {
+    const job = await this.getJob(input.jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(input.jobId);
+    }
+
+    if (job.workerId !== input.workerId) {
+      throw new Error('Unauthorized: Job is not assigned to this worker');
+    }
+
+    if (job.status !== 'in_progress') {
+      throw new JobNotInProgressError(job.id, job.status);
+    }
+
+    if (!Number.isInteger(input.percent) || input.percent < 0 || input.percent > 100) {
+      throw new Error('Percent must be an integer between 0 and 100');
+    }
+
+    const [update] = await db
+      .insert(jobProgress)
+      .values({
+        jobId: job.id,
+        workerId: input.workerId,
+        percent: input.percent,
+        message: sanitizeText(input.message),
+        artifactText: input.artifactText ? sanitizeText(input.artifactText) : null,
+        artifactUrl: input.artifactUrl,
+        artifactFiles: input.artifactFiles,
+      })
+      .returning();
+
+    return update;
+  }
+
+  /**
+   * Progress updates for a job (newest first)
+   */
+  async getJobProgress(jobId: string, limit = 20): Promise<JobProgress[]> {
+    return await db.query.jobProgress.findMany({
+      where: eq(jobProgress.jobId, jobId),
+      orderBy: [desc(jobProgress.createdAt)],
+      limit,
+    });
+  }
+
   /**
    * Worker delivers job results
    * IMPORTANT: Idempotent - returns success if already delivered
@@ -114,38 +575,311 @@ export class JobService {
     const job = await this.getJob(input.jobId);
 
     if (!job) {
-      throw new Error('Job not found');
+      throw new JobNotFoundError(input.jobId);
     }
 
     // IDEMPOTENT: If already delivered, return existing job (no state change)
-    if (job.status === 'delivered' || job.status === 'approved' || job.status === 'rejected') {
+    if (['delivered', 'approved', 'rejected', 'disputed', 'resolved'].includes(job.status)) {
       console.log(`Job ${input.jobId} already delivered (status: ${job.status}), returning existing job`);
       return job;
     }
 
-    if (job.status !== 'in_progress' && job.status !== 'posted') {
-      throw new Error(`Cannot deliver job in ${job.status} status`);
+    // Check the delivery is allowed before anything is uploaded
+    const milestones = await getJobMilestones(job.id);
+    const milestone = milestones.length > 0 ? this.getMilestoneToDeliver(job, milestones, input) : null;
+    const isFinal = !milestone || milestone.id === milestones[milestones.length - 1].id;
+
+    if (isFinal && !canTransition(job.status, 'delivered')) {
+      throw new InvalidJobTransitionError(job.id, job.status, 'delivered');
+    }
+
+    if (!isFinal && job.status !== 'in_progress' && job.status !== 'posted') {
+      throw new JobNotInProgressError(job.id, job.status);
     }
 
-    // Sanitize deliverable text to prevent XSS
-    const sanitizedText = input.deliverableText
-      ? sanitizeText(input.deliverableText)
-      : null;
+    // Files go to blob storage first; rows are recorded with the delivery
+    const artifacts = await uploadArtifacts(job.id, input.deliverableFiles ?? {}, input.deliverablePatch);
 
-    // Update job with deliverables
-    const [updatedJob] = await db
-      .update(jobs)
-      .set({
-        status: 'delivered',
-        deliverableText: sanitizedText,
-        deliverableUrl: input.deliverableUrl,
-        deliverableFiles: input.deliverableFiles,
-        deliveredAt: new Date(),
-      })
-      .where(eq(jobs.id, input.jobId))
+    let delivery: { job: Job; replacedKeys: string[] };
+
+    try {
+      if (milestone) {
+        delivery = await this.deliverMilestone(job, milestone, isFinal, input, artifacts);
+      } else {
+        // Update job with deliverables
+        delivery = await db.transaction(async (tx) => {
+          const replacedKeys = await saveArtifacts(tx, job.id, null, artifacts);
+
+          const updatedJob = await transitionJob(
+            job,
+            'delivered',
+            {
+              actor: { type: 'worker', id: job.workerId ?? undefined },
+              changes: this.getDeliveryChanges(job, input),
+            },
+            tx
+          );
+
+          return { job: updatedJob, replacedKeys };
+        });
+      }
+    } catch (error) {
+      // Delivery didn't happen (e.g. a concurrent delivery won) - don't keep its files
+      await discardArtifacts(job.id, artifacts);
+      throw error;
+    }
+
+    // Files this delivery replaced (redelivered paths) - only once it has committed
+    await pruneArtifacts(job.id, delivery.replacedKeys);
+
+    return delivery.job;
+  }
+
+  /**
+   * The milestone a delivery is for - it must be the current one
+   */
+  private getMilestoneToDeliver(job: Job, milestones: JobMilestone[], input: DeliverJobInput): JobMilestone {
+    if (!input.milestoneId) {
+      throw new InvalidMilestoneError(job.id, 'This job has milestones - pass the milestoneId you are delivering');
+    }
+
+    const milestone = milestones.find((m) => m.id === input.milestoneId);
+    if (!milestone) {
+      throw new InvalidMilestoneError(job.id, `Milestone ${input.milestoneId} not found for this job`);
+    }
+
+    const current = getCurrentMilestone(milestones);
+    if (!current || current.id !== milestone.id) {
+      throw new InvalidMilestoneError(
+        job.id,
+        current
+          ? `Milestones are delivered in order - current milestone is #${current.position} "${current.title}" (${current.status})`
+          : 'Every milestone is already approved'
+      );
+    }
+
+    return milestone;
+  }
+
+  /**
+   * Worker delivers the current milestone of a milestone job
+   * Final milestone delivers the job; earlier ones keep it in_progress
+   */
+  private async deliverMilestone(
+    job: Job,
+    milestone: JobMilestone,
+    isFinal: boolean,
+    input: DeliverJobInput,
+    artifacts: UploadedArtifact[]
+  ): Promise<{ job: Job; replacedKeys: string[] }> {
+    const deliveryChanges = this.getDeliveryChanges(job, input);
+    const { deliverableText, deliverableUrl, deliveredAt } = deliveryChanges;
+    const milestoneChanges = { status: 'delivered', deliverableText, deliverableUrl, deliveredAt };
+
+    // Final milestone = job delivery: review window, approval and disputes work as usual
+    if (isFinal) {
+      return await db.transaction(async (tx) => {
+        await tx.update(jobMilestones).set(milestoneChanges).where(eq(jobMilestones.id, milestone.id));
+        const replacedKeys = await saveArtifacts(tx, job.id, milestone.id, artifacts);
+
+        const updatedJob = await transitionJob(
+          job,
+          'delivered',
+          {
+            actor: { type: 'worker', id: job.workerId ?? undefined },
+            metadata: { milestoneId: milestone.id },
+            changes: deliveryChanges,
+          },
+          tx
+        );
+
+        return { job: updatedJob, replacedKeys };
+      });
+    }
+
+    // Earlier milestones get their own review window; the job's deadline is paused
+    // until it's approved (see processTimeouts) and restarts for the next one
+    const reviewDeadlineAt = new Date(Date.now() + job.reviewWindowHours * 60 * 60 * 1000);
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(jobMilestones)
+        .set({ ...milestoneChanges, reviewDeadlineAt })
+        .where(eq(jobMilestones.id, milestone.id));
+      const replacedKeys = await saveArtifacts(tx, job.id, milestone.id, artifacts);
+
+      // Delivering counts as accepting
+      if (job.status === 'posted') {
+        const acceptedJob = await transitionJob(
+          job,
+          'in_progress',
+          {
+            actor: { type: 'worker', id: job.workerId ?? undefined },
+            reason: `Delivered milestone #${milestone.position}`,
+            changes: { acceptedAt: new Date() },
+          },
+          tx
+        );
+
+        return { job: acceptedJob, replacedKeys };
+      }
+
+      return { job, replacedKeys };
+    });
+  }
+
+  /**
+   * Columns set when a job (or its final milestone) is delivered
+   */
+  private getDeliveryChanges(job: Job, input: DeliverJobInput) {
+    return {
+      // Sanitize deliverable text to prevent XSS
+      deliverableText: input.deliverableText ? sanitizeText(input.deliverableText) : null,
+      deliverableUrl: input.deliverableUrl,
+      deliveredAt: new Date(),
+      reviewDeadlineAt: new Date(Date.now() + job.reviewWindowHours * 60 * 60 * 1000),
+      reviewReminderSentAt: null,
+    };
+  }
+
+  /**
+   * Buyer approves a delivered milestone and releases its share of escrow
+   * CRITICAL: Validates job ownership; the final milestone is approved with the job
+   */
+  async approveMilestone(jobId: string, milestoneId: string, userId: string): Promise<JobMilestone> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    // CRITICAL: Verify job ownership (prevent unauthorized escrow release)
+    if (job.userId !== userId) {
+      throw new Error('Unauthorized: You do not own this job');
+    }
+
+    // Disputed, cancelled or finished jobs have their escrow settled elsewhere
+    if (job.status !== 'in_progress' && job.status !== 'delivered') {
+      throw new InvalidMilestoneError(job.id, `Job is ${job.status} - milestones can only be approved while it's in progress`);
+    }
+
+    const milestones = await getJobMilestones(job.id);
+    const milestone = milestones.find((m) => m.id === milestoneId);
+
+    if (!milestone) {
+      throw new InvalidMilestoneError(job.id, `Milestone ${milestoneId} not found for this job`);
+    }
+
+    if (milestone.id === milestones[milestones.length - 1].id) {
+      throw new InvalidMilestoneError(job.id, 'The final milestone is approved by approving the job');
+    }
+
+    return await this.approveDeliveredMilestone(job, milestone);
+  }
+
+  /**
+   * Approve a delivered milestone whose review window has passed
+   * If escrow can't be released (frozen worker, Stripe error) it stays delivered
+   */
+  async autoApproveMilestone(milestoneId: string): Promise<JobMilestone> {
+    const milestone = await db.query.jobMilestones.findFirst({
+      where: eq(jobMilestones.id, milestoneId),
+    });
+
+    if (!milestone) {
+      throw new Error(`Milestone ${milestoneId} not found`);
+    }
+
+    const job = await this.getJob(milestone.jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(milestone.jobId);
+    }
+
+    if (job.status !== 'in_progress') {
+      throw new InvalidMilestoneError(job.id, `Job is ${job.status} - milestones can only be approved while it's in progress`);
+    }
+
+    const approved = await this.approveDeliveredMilestone(job, milestone);
+
+    await buyerNotifier.notify(
+      job,
+      'milestone_auto_approved',
+      `Milestone #${milestone.position} "${milestone.title}" of job "${job.task}" was auto-approved because it wasn't reviewed within ${job.reviewWindowHours} hours. Its share of the payment was released to the worker.`
+    );
+
+    return approved;
+  }
+
+  /**
+   * Approve a delivered milestone and restart the job's deadline for the next one
+   * CRITICAL: A failed release rolls the approval back, so the buyer or the
+   * review-window cron can retry
+   */
+  private async approveDeliveredMilestone(job: Job, milestone: JobMilestone): Promise<JobMilestone> {
+    const offer = job.offerSnapshot as WorkerOffer | null;
+
+    return await db.transaction(async (tx) => {
+      const approved = await this.releaseMilestone(tx, job, milestone);
+
+      if (offer) {
+        await tx
+          .update(jobs)
+          .set({ timeoutAt: this.getTimeoutAt(offer) })
+          .where(and(eq(jobs.id, job.id), eq(jobs.status, 'in_progress')));
+      }
+
+      return approved;
+    });
+  }
+
+  /**
+   * Mark a delivered milestone approved and release its share of escrow (caller's transaction)
+   * CRITICAL: Conditional on delivered so a milestone is only ever paid once
+   */
+  private async releaseMilestone(tx: DbTransaction, job: Job, milestone: JobMilestone): Promise<JobMilestone> {
+    const [approved] = await tx
+      .update(jobMilestones)
+      .set({ status: 'approved', approvedAt: new Date() })
+      .where(and(eq(jobMilestones.id, milestone.id), eq(jobMilestones.status, 'delivered')))
       .returning();
 
-    return updatedJob;
+    if (!approved) {
+      throw new InvalidMilestoneError(job.id, `Milestone is ${milestone.status} - only delivered milestones can be approved`);
+    }
+
+    const releaseResult = await walletService.releaseEscrowPortion(
+      job.id,
+      job.workerId!,
+      fromDecimal(milestone.amount),
+      milestone.id,
+      tx
+    );
+
+    if (!releaseResult.success) {
+      throw new Error(`Failed to release payment: ${releaseResult.error}`);
+    }
+
+    return approved;
+  }
+
+  /**
+   * Pay out milestones the worker delivered before the job is cancelled
+   * (caller's transaction - runs before the rest of escrow is refunded or split)
+   */
+  private async releaseDeliveredMilestones(tx: DbTransaction, job: Job): Promise<void> {
+    const milestones = await getJobMilestones(job.id, tx);
+
+    for (const milestone of milestones.filter((m) => m.status === 'delivered')) {
+      await this.releaseMilestone(tx, job, milestone);
+    }
+  }
+
+  /**
+   * A job's milestones in delivery order (empty for regular jobs)
+   */
+  async getJobMilestones(jobId: string): Promise<JobMilestone[]> {
+    return await getJobMilestones(jobId);
   }
 
   /**
@@ -156,7 +890,7 @@ export class JobService {
     const job = await this.getJob(jobId);
 
     if (!job) {
-      throw new Error('Job not found');
+      throw new JobNotFoundError(jobId);
     }
 
     // CRITICAL: Verify job ownership (prevent unauthorized escrow release)
@@ -164,53 +898,109 @@ export class JobService {
       throw new Error('Unauthorized: You do not own this job');
     }
 
-    if (job.status !== 'delivered') {
-      throw new Error(`Cannot approve job in ${job.status} status`);
-    }
-
     if (rating < 1 || rating > 5) {
       throw new Error('Rating must be between 1 and 5');
     }
 
-    // Update job status
-    const [updatedJob] = await db
-      .update(jobs)
-      .set({
-        status: 'approved',
+    const updatedJob = await this.approveAndRelease(job, {
+      actor: { type: 'buyer', id: userId },
+      metadata: { rating },
+      changes: {
         rating,
         feedback: feedback ? sanitizeText(feedback) : null,
         completedAt: new Date(),
-      })
-      .where(eq(jobs.id, jobId))
-      .returning();
+      },
+    });
 
-    // Release escrow to worker
-    if (job.type === 'worker' && job.workerId) {
-      const releaseResult = await walletService.releaseEscrowToWorker(
-        jobId,
-        job.workerId
+    await this.settleApprovedJob(updatedJob, rating);
+
+    return updatedJob;
+  }
+
+  /**
+   * Approve a delivered job whose review window has passed
+   * Neutral outcome: no rating, so the worker's score doesn't move
+   * If escrow can't be released (frozen worker, Stripe error) the job stays delivered
+   */
+  async autoApproveJob(jobId: string): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    const updatedJob = await this.approveAndRelease(job, {
+      actor: SYSTEM_ACTOR,
+      reason: `Auto-approved - review window of ${job.reviewWindowHours}h passed`,
+      changes: {
+        rating: null,
+        feedback: 'Auto-approved after review window',
+        completedAt: new Date(),
+      },
+    });
+
+    await this.settleApprovedJob(updatedJob, null);
+
+    await buyerNotifier.notify(
+      updatedJob,
+      'job_auto_approved',
+      `Job "${job.task}" was auto-approved because it wasn't reviewed within ${job.reviewWindowHours} hours. Payment was released to the worker.`
+    );
+
+    return updatedJob;
+  }
+
+  /**
+   * Approve a delivered job and release its escrow to the worker in one transaction
+   * CRITICAL: A failed release (frozen worker, Stripe error) rolls the approval back,
+   * so the job stays delivered and the buyer or the review-window cron can retry
+   */
+  private async approveAndRelease(job: Job, options: TransitionOptions): Promise<Job> {
+    return await db.transaction(async (tx) => {
+      const updatedJob = await transitionJob(
+        job,
+        'approved',
+        { ...options, expectedStatus: 'delivered' },
+        tx
       );
 
-      if (!releaseResult.success) {
-        throw new Error(`Failed to release payment: ${releaseResult.error}`);
+      if (job.type === 'worker' && job.workerId) {
+        const releaseResult = await walletService.releaseEscrowToWorker(job.id, job.workerId, tx);
+
+        if (!releaseResult.success) {
+          throw new Error(`Failed to release payment: ${releaseResult.error}`);
+        }
       }
 
+      return updatedJob;
+    });
+  }
+
+  /**
+   * Approve remaining milestones, update reputation and free the worker slot
+   * after the approval (and escrow release) has committed
+   */
+  private async settleApprovedJob(job: Job, rating: number | null): Promise<void> {
+    if (job.type === 'worker' && job.workerId) {
+      await approveRemainingMilestones(job.id);
+
       // Update worker reputation
       await workerService.updateReputation(job.workerId, rating);
     }
 
-    return updatedJob;
+    await this.releaseWorkerSlot(job);
   }
 
   /**
-   * User rejects job and requests refund
+   * User rejects job
+   * Worker jobs open a dispute (see disputes.ts); skill jobs are refunded straight away
    * CRITICAL: Validates job ownership before processing refund
    */
   async rejectJob(jobId: string, userId: string, reason: string): Promise<Job> {
     const job = await this.getJob(jobId);
 
     if (!job) {
-      throw new Error('Job not found');
+      throw new JobNotFoundError(jobId);
     }
 
     // CRITICAL: Verify job ownership (prevent unauthorized refunds)
@@ -218,20 +1008,22 @@ export class JobService {
       throw new Error('Unauthorized: You do not own this job');
     }
 
-    if (job.status !== 'delivered') {
-      throw new Error(`Cannot reject job in ${job.status} status`);
+    // Worker jobs: escrow stays locked until the dispute is settled
+    if (job.workerId) {
+      const disputedJob = await disputeService.openDispute(job, userId, reason);
+      await this.releaseWorkerSlot(disputedJob);
+      return disputedJob;
     }
 
     // Update job status
-    const [updatedJob] = await db
-      .update(jobs)
-      .set({
-        status: 'rejected',
+    const updatedJob = await transitionJob(job, 'rejected', {
+      actor: { type: 'buyer', id: userId },
+      reason,
+      changes: {
         feedback: sanitizeText(reason),
         completedAt: new Date(),
-      })
-      .where(eq(jobs.id, jobId))
-      .returning();
+      },
+    });
 
     // Refund escrowed funds to wallet
     const refundResult = await walletService.refundEscrowToWallet(jobId);
@@ -240,59 +1032,376 @@ export class JobService {
       throw new Error(`Failed to refund: ${refundResult.error}`);
     }
 
+    await this.releaseWorkerSlot(updatedJob);
+
     return updatedJob;
   }
 
   /**
-   * Cancel job (timeout or user cancellation)
+   * User asks the worker to revise a delivered job
+   * CRITICAL: Validates job ownership; counts against the offer's revision allowance
    */
-  async cancelJob(jobId: string, reason: string): Promise<Job> {
+  async requestRevision(jobId: string, userId: string, notes: string): Promise<Job> {
     const job = await this.getJob(jobId);
 
     if (!job) {
-      throw new Error('Job not found');
+      throw new JobNotFoundError(jobId);
     }
 
-    if (job.status === 'approved' || job.status === 'rejected') {
-      throw new Error('Cannot cancel completed job');
+    // CRITICAL: Verify job ownership
+    if (job.userId !== userId) {
+      throw new Error('Unauthorized: You do not own this job');
     }
 
-    // Update job status
-    const [updatedJob] = await db
-      .update(jobs)
-      .set({
-        status: 'cancelled',
-        feedback: reason,
-        completedAt: new Date(),
-      })
-      .where(eq(jobs.id, jobId))
-      .returning();
+    // Revisions are only for delivered work - posted -> in_progress is the worker accepting
+    if (job.status !== 'delivered') {
+      throw new InvalidJobTransitionError(jobId, job.status, 'in_progress');
+    }
 
-    // Refund escrowed funds
-    const refundResult = await walletService.refundEscrowToWallet(jobId);
+    if (job.revisionsUsed >= job.revisionsIncluded) {
+      throw new RevisionLimitReachedError(jobId, job.revisionsIncluded);
+    }
 
-    if (!refundResult.success) {
-      throw new Error(`Failed to refund: ${refundResult.error}`);
+    const sanitizedNotes = sanitizeText(notes);
+
+    // Give the worker the same delivery window they had originally
+    const timeoutAt = job.timeoutAt
+      ? new Date(Date.now() + (job.timeoutAt.getTime() - job.createdAt.getTime()))
+      : null;
+
+    // Status guard in transitionJob makes the revision count race-safe
+    const updatedJob = await db.transaction(async (tx) => {
+      const revisedJob = await transitionJob(
+        job,
+        'in_progress',
+        {
+          actor: { type: 'buyer', id: userId },
+          reason: sanitizedNotes,
+          metadata: { revision: job.revisionsUsed + 1 },
+          expectedStatus: 'delivered',
+          changes: {
+            revisionsUsed: job.revisionsUsed + 1,
+            deliveredAt: null,
+            reviewDeadlineAt: null,
+            timeoutAt,
+          },
+        },
+        tx
+      );
+
+      // Final milestone goes back to the worker too (it isn't owed until redelivered)
+      await tx
+        .update(jobMilestones)
+        .set({ status: 'pending', deliveredAt: null })
+        .where(and(eq(jobMilestones.jobId, job.id), eq(jobMilestones.status, 'delivered')));
+
+      return revisedJob;
+    });
+
+    await this.notifyWorkerOfRevision(updatedJob, sanitizedNotes);
+
+    return updatedJob;
+  }
+
+  /**
+   * Cancel job (timeout or user cancellation)
+   * Only jobs that haven't been delivered can be cancelled
+   */
+  async cancelJob(jobId: string, reason: string, actor: JobActor = SYSTEM_ACTOR): Promise<Job> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
     }
 
+    const { job: updatedJob } = await this.cancelWithRefund(job, reason, actor);
+
     return updatedJob;
   }
 
+  /**
+   * Cancel a job and refund what's left in escrow to the buyer
+   * Delivered milestones are paid out first
+   */
+  private async cancelWithRefund(
+    job: Job,
+    reason: string,
+    actor: JobActor
+  ): Promise<{ job: Job; refundCents: Cents }> {
+    // CRITICAL: A failed refund rolls the cancellation back
+    const result = await db.transaction(async (tx) => {
+      const cancelledJob = await transitionJob(
+        job,
+        'cancelled',
+        {
+          actor,
+          reason,
+          changes: {
+            feedback: reason,
+            completedAt: new Date(),
+          },
+        },
+        tx
+      );
+
+      await this.releaseDeliveredMilestones(tx, job);
+
+      // Refund escrowed funds
+      const refundResult = await walletService.refundEscrowToWallet(job.id, tx);
+
+      if (!refundResult.success) {
+        throw new Error(`Failed to refund: ${refundResult.error}`);
+      }
+
+      return { job: cancelledJob, refundCents: refundResult.refundCents ?? 0 };
+    });
+
+    // Cancelling a queued job doesn't free a slot, but it's a cheap no-op
+    await this.releaseWorkerSlot(result.job);
+
+    return result;
+  }
+
+  /**
+   * Buyer cancels their job
+   * CRITICAL: Validates job ownership before touching escrow
+   * Full refund until the worker accepts; after that the worker keeps KILL_FEE_PERCENT
+   */
+  async cancelJobByBuyer(jobId: string, userId: string, reason: string): Promise<CancellationResult> {
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    // CRITICAL: Verify job ownership (prevent unauthorized refunds)
+    if (job.userId !== userId) {
+      throw new Error('Unauthorized: You do not own this job');
+    }
+
+    const actor: JobActor = { type: 'buyer', id: userId };
+    const sanitizedReason = sanitizeText(reason);
+
+    // Not accepted yet - nothing owed to the worker
+    if (job.status !== 'in_progress' || !job.workerId || KILL_FEE_PERCENT <= 0) {
+      const cancelled = await this.cancelWithRefund(job, sanitizedReason, actor);
+      return { job: cancelled.job, refundAmount: toDollars(cancelled.refundCents), workerPayout: 0 };
+    }
+
+    const workerId = job.workerId;
+
+    // CRITICAL: A failed split (frozen worker, Stripe error) rolls the cancellation back
+    const { updatedJob, split } = await db.transaction(async (tx) => {
+      const cancelledJob = await transitionJob(
+        job,
+        'cancelled',
+        {
+          actor,
+          reason: sanitizedReason,
+          metadata: { killFeePercent: KILL_FEE_PERCENT },
+          changes: {
+            feedback: sanitizedReason,
+            completedAt: new Date(),
+          },
+        },
+        tx
+      );
+
+      // Kill fee is a share of what's left after delivered milestones are paid
+      await this.releaseDeliveredMilestones(tx, job);
+
+      const splitResult = await walletService.splitEscrow(
+        jobId,
+        workerId,
+        KILL_FEE_PERCENT,
+        'job_cancelled_after_acceptance',
+        tx
+      );
+
+      if (!splitResult.success) {
+        throw new Error(`Failed to settle cancellation: ${splitResult.error}`);
+      }
+
+      return { updatedJob: cancelledJob, split: splitResult };
+    });
+
+    await this.releaseWorkerSlot(updatedJob);
+
+    return {
+      job: updatedJob,
+      refundAmount: toDollars(split.refundCents ?? 0),
+      workerPayout: toDollars(split.workerPayoutCents ?? 0),
+    };
+  }
+
   /**
    * Check for timed-out jobs and auto-cancel
+   * IMPORTANT: Safe to run concurrently - only one run sweeps at a time
+   * (advisory lock), and each cancel is guarded by the state machine
+   */
+  async processTimeouts(): Promise<TimeoutSweepResult> {
+    const run = await withAdvisoryLock(ADVISORY_LOCKS.JOB_TIMEOUTS, async () => {
+      // Jobs waiting on the buyer to approve a milestone aren't late
+      // (the milestone is auto-approved instead - see processReviewWindows)
+      const timedOutJobs = await db.query.jobs.findMany({
+        where: sql`
+          ${jobs.status} IN ('posted', 'in_progress') AND
+          ${jobs.timeoutAt} IS NOT NULL AND
+          ${jobs.timeoutAt} < NOW() AND
+          NOT EXISTS (
+            SELECT 1 FROM ${jobMilestones}
+            WHERE ${jobMilestones.jobId} = ${jobs.id} AND ${jobMilestones.status} = 'delivered'
+          )
+        `,
+      });
+
+      const result: TimeoutSweepResult = {
+        skipped: false,
+        checked: timedOutJobs.length,
+        cancelled: 0,
+        refunded: 0,
+        failed: [],
+      };
+
+      for (const job of timedOutJobs) {
+        try {
+          await this.cancelJob(job.id, 'Job timed out - worker did not deliver within deadline');
+          result.cancelled++;
+          result.refunded++;
+        } catch (error) {
+          // Delivered or cancelled since we read it - nothing to do
+          if (error instanceof InvalidJobTransitionError || error instanceof JobTransitionConflictError) {
+            continue;
+          }
+
+          console.error(`Failed to time out job ${job.id}:`, error);
+
+          // Cancelled but the refund failed - still counts as cancelled
+          const current = await this.getJob(job.id);
+          if (current?.status === 'cancelled') {
+            result.cancelled++;
+          }
+          result.failed.push(job.id);
+        }
+      }
+
+      return result;
+    });
+
+    if (!run.acquired) {
+      return { skipped: true, checked: 0, cancelled: 0, refunded: 0, failed: [] };
+    }
+
+    return run.result;
+  }
+
+  /**
+   * Remind buyers of deliveries about to be auto-approved, then auto-approve
+   * the ones past their review deadline whose reminder went out at least
+   * REVIEW_REMINDER_GRACE_HOURS ago
+   * IMPORTANT: Safe to run concurrently (advisory lock + state machine guards)
    */
-  async processTimeouts(): Promise<void> {
-    const timedOutJobs = await db.query.jobs.findMany({
-      where: sql`
-        ${jobs.status} IN ('posted', 'in_progress') AND
-        ${jobs.timeoutAt} IS NOT NULL AND
-        ${jobs.timeoutAt} < NOW()
-      `,
+  async processReviewWindows(): Promise<ReviewSweepResult> {
+    const run = await withAdvisoryLock(ADVISORY_LOCKS.REVIEW_WINDOWS, async () => {
+      const result: ReviewSweepResult = {
+        skipped: false,
+        reminded: 0,
+        autoApproved: 0,
+        milestonesAutoApproved: 0,
+        failed: [],
+      };
+
+      // 1. Reminders (including overdue deliveries that never got one, e.g. the cron was down)
+      const dueForReminder = await db.query.jobs.findMany({
+        where: sql`
+          ${jobs.status} = 'delivered' AND
+          ${jobs.reviewReminderSentAt} IS NULL AND
+          ${jobs.reviewDeadlineAt} IS NOT NULL AND
+          ${jobs.reviewDeadlineAt} < NOW() + make_interval(hours => ${REVIEW_REMINDER_HOURS})
+        `,
+      });
+
+      for (const job of dueForReminder) {
+        const autoApproveAt = new Date(
+          Math.max(job.reviewDeadlineAt!.getTime(), Date.now() + REVIEW_REMINDER_GRACE_HOURS * 60 * 60 * 1000)
+        );
+
+        await buyerNotifier.notify(
+          job,
+          'review_reminder',
+          `Job "${job.task}" will be auto-approved and paid out at ${autoApproveAt.toISOString()} unless you approve, reject or request a revision first.`
+        );
+
+        await db
+          .update(jobs)
+          .set({ reviewReminderSentAt: new Date() })
+          .where(eq(jobs.id, job.id));
+
+        result.reminded++;
+      }
+
+      // 2. Auto-approvals - only once the buyer was reminded and had the grace period to act
+      const expired = await db.query.jobs.findMany({
+        where: sql`
+          ${jobs.status} = 'delivered' AND
+          ${jobs.reviewDeadlineAt} IS NOT NULL AND
+          ${jobs.reviewDeadlineAt} < NOW() AND
+          ${jobs.reviewReminderSentAt} IS NOT NULL AND
+          ${jobs.reviewReminderSentAt} < NOW() - make_interval(hours => ${REVIEW_REMINDER_GRACE_HOURS})
+        `,
+      });
+
+      for (const job of expired) {
+        try {
+          await this.autoApproveJob(job.id);
+          result.autoApproved++;
+        } catch (error) {
+          // Buyer acted since we read it - nothing to do
+          if (error instanceof InvalidJobTransitionError || error instanceof JobTransitionConflictError) {
+            continue;
+          }
+
+          // Still delivered with escrow locked - picked up again on the next run
+          console.error(`Failed to auto-approve job ${job.id}:`, error);
+          result.failed.push(job.id);
+        }
+      }
+
+      // 3. Milestone auto-approvals (earlier milestones of jobs still in progress)
+      const expiredMilestones = await db
+        .select({ id: jobMilestones.id, jobId: jobMilestones.jobId })
+        .from(jobMilestones)
+        .innerJoin(jobs, eq(jobs.id, jobMilestones.jobId))
+        .where(sql`
+          ${jobs.status} = 'in_progress' AND
+          ${jobMilestones.status} = 'delivered' AND
+          ${jobMilestones.reviewDeadlineAt} IS NOT NULL AND
+          ${jobMilestones.reviewDeadlineAt} < NOW()
+        `);
+
+      for (const milestone of expiredMilestones) {
+        try {
+          await this.autoApproveMilestone(milestone.id);
+          result.milestonesAutoApproved++;
+        } catch (error) {
+          // Buyer approved it or the job moved on since we read it - nothing to do
+          if (error instanceof InvalidMilestoneError) {
+            continue;
+          }
+
+          console.error(`Failed to auto-approve milestone ${milestone.id}:`, error);
+          result.failed.push(milestone.jobId);
+        }
+      }
+
+      return result;
     });
 
-    for (const job of timedOutJobs) {
-      await this.cancelJob(job.id, 'Job timed out - worker did not deliver within deadline');
+    if (!run.acquired) {
+      return { skipped: true, reminded: 0, autoApproved: 0, milestonesAutoApproved: 0, failed: [] };
     }
+
+    return run.result;
   }
 
   /**
@@ -335,75 +1444,117 @@ export class JobService {
       }
     }
 
-    // Prepare webhook payload
-    const timestamp = Date.now().toString();
-    const payload = JSON.stringify({
-      jobId: job.id,
-      task: job.task,
-      inputs: job.inputs,
-      context: job.context,
-      callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/jobs/${job.id}/deliver`,
-      budget: parseFloat(job.budget),
-      deadline: job.timeoutAt,
-    });
-
-    // Sign webhook if worker has secret
-    // IMPORTANT: Signature includes timestamp to prevent replay attacks
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Webhook-Timestamp': timestamp,
-    };
-
-    if (worker.webhookSecret) {
-      const signature = signWebhookWithTimestamp(payload, timestamp, worker.webhookSecret);
-      headers['X-Webhook-Signature'] = signature;
-    }
+    const jobUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/jobs/${job.id}`;
+    const milestones = await getJobMilestones(job.id);
+    let reply: WorkerWebhookReply | null;
 
     try {
-      const response = await fetch(worker.apiEndpoint, {
-        method: 'POST',
-        headers,
-        body: payload,
+      const response = await sendWorkerWebhook(worker, {
+        jobId: job.id,
+        task: job.task,
+        inputs: job.inputs,
+        context: job.context,
+        callbackUrl: `${jobUrl}/deliver`,
+        acceptUrl: `${jobUrl}/accept`,
+        declineUrl: `${jobUrl}/decline`,
+        progressUrl: `${jobUrl}/progress`,
+        budget: toDollars(fromDecimal(job.budget)),
+        deadline: job.timeoutAt,
+        offer: job.offerSnapshot,
+        revisionsIncluded: job.revisionsIncluded,
+        // Deliver each with its milestoneId, in order
+        milestones: milestones.map(({ id, position, title, description, amount }) => ({
+          id,
+          position,
+          title,
+          description,
+          amount: toDollars(fromDecimal(amount)),
+        })),
       });
 
       if (!response.ok) {
         throw new Error(`Worker webhook failed: ${response.statusText}`);
       }
 
-      // Update job to in_progress
-      await db
-        .update(jobs)
-        .set({
-          status: 'in_progress',
-          acceptedAt: new Date(),
-        })
-        .where(eq(jobs.id, job.id));
+      // Body is optional - a plain 2xx just means "received"
+      reply = await response.json().catch(() => null);
     } catch (error) {
       console.error('Failed to notify worker:', error);
       // Cancel job and refund if webhook fails
       await this.cancelJob(job.id, 'Failed to notify worker');
       throw new Error('Failed to reach worker. Job cancelled and funds refunded.');
     }
+
+    if (reply?.decision === 'decline') {
+      const reason = typeof reply.reason === 'string' && reply.reason ? reply.reason : 'No reason given';
+      const declinedJob = await this.declineJob(job.id, worker.id, reason);
+      throw new JobDeclinedError(job.id, declinedJob.feedback || reason);
+    }
+
+    if (reply?.decision !== 'accept') {
+      return;
+    }
+
+    // A fast worker may already have delivered - that's not a failure
+    try {
+      await this.acceptJob(job.id, worker.id);
+    } catch (error) {
+      if (!(error instanceof JobTransitionConflictError)) {
+        throw error;
+      }
+    }
   }
 
   /**
-   * Get user's job history
+   * Send revision request to worker
+   * Job stays in_progress if the worker is unreachable - the timeout sweeper handles it
    */
-  async getUserJobs(userId: string) {
-    return await db.query.jobs.findMany({
-      where: eq(jobs.userId, userId),
-      orderBy: (jobs, { desc }) => [desc(jobs.createdAt)],
+  private async notifyWorkerOfRevision(job: Job, notes: string): Promise<void> {
+    if (!job.workerId) {
+      return;
+    }
+
+    const worker = await db.query.workers.findFirst({
+      where: eq(workers.id, job.workerId),
     });
+
+    if (!worker || !worker.apiEndpoint) {
+      throw new Error('Worker endpoint not configured');
+    }
+
+    try {
+      const response = await sendWorkerWebhook(worker, {
+        type: 'revision_requested',
+        jobId: job.id,
+        task: job.task,
+        inputs: job.inputs,
+        notes,
+        revision: job.revisionsUsed,
+        revisionsRemaining: job.revisionsIncluded - job.revisionsUsed,
+        callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/jobs/${job.id}/deliver`,
+        deadline: job.timeoutAt,
+      });
+
+      if (!response.ok) {
+        console.error(`Revision webhook failed for job ${job.id}: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to notify worker of revision:', error);
+    }
   }
 
   /**
-   * Get worker's job history
+   * Get user's job history (one page, newest first)
    */
-  async getWorkerJobs(workerId: string) {
-    return await db.query.jobs.findMany({
-      where: eq(jobs.workerId, workerId),
-      orderBy: (jobs, { desc }) => [desc(jobs.createdAt)],
-    });
+  async getUserJobs(userId: string, filters: JobFilters = {}): Promise<JobPage> {
+    return await searchJobs({ userId }, filters);
+  }
+
+  /**
+   * Get worker's job history (one page, newest first)
+   */
+  async getWorkerJobs(workerId: string, filters: JobFilters = {}): Promise<JobPage> {
+    return await searchJobs({ workerId }, filters);
   }
 }
 
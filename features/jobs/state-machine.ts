@@ -0,0 +1,134 @@
+import { db, type DbTransaction } from '@/lib/db';
+import { jobs, jobEvents, type Job, type NewJob } from '@/lib/db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import type { JobStatus } from '@/lib/types/job';
+import { InvalidJobTransitionError, JobTransitionConflictError } from './errors';
+
+/**
+ * Job state machine
+ *
+ * Every job status change goes through transitionJob(), which checks it
+ * against JOB_TRANSITIONS and records it in job_events.
+ */
+
+export type JobActorType = 'buyer' | 'worker' | 'system' | 'admin';
+
+export interface JobActor {
+  type: JobActorType;
+  id?: string;
+}
+
+export const SYSTEM_ACTOR: JobActor = { type: 'system' };
+
+/**
+ * Allowed transitions (from -> to)
+ * Workers may deliver straight from posted (accepting is optional)
+ */
+export const JOB_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  queued: ['posted', 'cancelled'], // posted = worker slot freed up
+  posted: ['in_progress', 'delivered', 'cancelled', 'declined'], // in_progress = worker accepted
+  in_progress: ['delivered', 'cancelled'],
+  delivered: ['approved', 'rejected', 'in_progress', 'disputed'], // in_progress = revision requested
+  disputed: ['rejected', 'resolved'], // rejected = worker didn't respond in time, resolved = admin split escrow
+  approved: [],
+  rejected: [],
+  cancelled: [],
+  declined: [],
+  resolved: [],
+};
+
+export function canTransition(from: string, to: JobStatus): boolean {
+  const allowed = JOB_TRANSITIONS[from as JobStatus];
+  return !!allowed && allowed.includes(to);
+}
+
+export function isTerminalStatus(status: string): boolean {
+  const allowed = JOB_TRANSITIONS[status as JobStatus];
+  return !!allowed && allowed.length === 0;
+}
+
+export interface TransitionOptions {
+  actor: JobActor;
+  reason?: string;
+  metadata?: Record<string, any>;
+  changes?: Partial<Omit<NewJob, 'id' | 'status'>>; // Extra columns to update with the status
+  expectedStatus?: JobStatus; // Only move from this status, even if others could reach `to`
+}
+
+/**
+ * Move a job to a new status
+ * CRITICAL: Conditional on the status we read, so two concurrent
+ * transitions from the same state can't both succeed
+ * Pass a transaction to make the transition part of the caller's unit of work
+ */
+export async function transitionJob(
+  job: Job,
+  to: JobStatus,
+  options: TransitionOptions,
+  outerTx?: DbTransaction
+): Promise<Job> {
+  if (!canTransition(job.status, to)) {
+    throw new InvalidJobTransitionError(job.id, job.status, to);
+  }
+
+  if (options.expectedStatus && job.status !== options.expectedStatus) {
+    throw new InvalidJobTransitionError(job.id, job.status, to);
+  }
+
+  const apply = async (tx: DbTransaction) => {
+    const [updatedJob] = await tx
+      .update(jobs)
+      .set({
+        ...options.changes,
+        status: to,
+      })
+      .where(and(eq(jobs.id, job.id), eq(jobs.status, job.status)))
+      .returning();
+
+    if (!updatedJob) {
+      throw new JobTransitionConflictError(job.id, job.status, to);
+    }
+
+    await tx.insert(jobEvents).values({
+      jobId: job.id,
+      fromStatus: job.status,
+      toStatus: to,
+      actorType: options.actor.type,
+      actorId: options.actor.id,
+      reason: options.reason,
+      metadata: options.metadata,
+    });
+
+    return updatedJob;
+  };
+
+  return outerTx ? await apply(outerTx) : await db.transaction(apply);
+}
+
+/**
+ * Record the initial status of a newly created job
+ */
+export async function recordJobCreated(
+  job: Job,
+  actor: JobActor,
+  tx: DbTransaction | typeof db = db
+): Promise<void> {
+  await tx.insert(jobEvents).values({
+    jobId: job.id,
+    fromStatus: null,
+    toStatus: job.status,
+    actorType: actor.type,
+    actorId: actor.id,
+    reason: 'Job created',
+  });
+}
+
+/**
+ * Full transition history for a job (oldest first)
+ */
+export async function getJobEvents(jobId: string) {
+  return await db.query.jobEvents.findMany({
+    where: eq(jobEvents.jobId, jobId),
+    orderBy: [asc(jobEvents.createdAt)],
+  });
+}
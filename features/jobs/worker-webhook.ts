@@ -0,0 +1,31 @@
+import type { Worker } from '@/lib/db/schema';
+import { signWebhookWithTimestamp } from '@/lib/security/webhook-crypto';
+
+/**
+ * POST a signed payload to the worker's endpoint
+ * IMPORTANT: Signature includes timestamp to prevent replay attacks
+ */
+export async function sendWorkerWebhook(
+  worker: Worker,
+  body: Record<string, any>
+): Promise<Response> {
+  const timestamp = Date.now().toString();
+  const payload = JSON.stringify(body);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Webhook-Timestamp': timestamp,
+  };
+
+  // Sign webhook if worker has secret
+  if (worker.webhookSecret) {
+    const signature = signWebhookWithTimestamp(payload, timestamp, worker.webhookSecret);
+    headers['X-Webhook-Signature'] = signature;
+  }
+
+  return await fetch(worker.apiEndpoint, {
+    method: 'POST',
+    headers,
+    body: payload,
+  });
+}
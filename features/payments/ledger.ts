@@ -0,0 +1,391 @@
+import { db, type DbTransaction } from '@/lib/db';
+import { ledgerEntries, ledgerLines, users, type LedgerEntry } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { toDecimal, type Cents } from '@/lib/money';
+
+/**
+ * Double-entry ledger
+ *
+ * Every money movement is one journal entry whose lines sum to zero
+ * (debits positive, credits negative, in cents). Accounts are a type plus an
+ * owner (user, job, pipeline or worker). users.walletBalance is a cached
+ * projection of the user_wallet account, updated in the same transaction as
+ * the entry; reconcile() checks it and the escrow/pipeline rows against the ledger.
+ */
+
+export type LedgerAccountType =
+  | 'user_wallet' // Owed to a buyer (owner: users.id)
+  | 'user_receivable' // Owed by a buyer - refunded or disputed top-ups already spent (owner: users.id)
+  | 'escrow' // Held for a job (owner: jobs.id)
+  | 'pipeline_reserve' // Held for a pipeline's later steps (owner: pipelines.id)
+  | 'worker_payable' // Earned by a worker, not yet transferred (owner: workers.id)
+  | 'platform_revenue' // Platform fees
+  | 'stripe_clearing'; // Cash at Stripe - deposits come in, transfers go out
+
+export type LedgerEntryKind =
+  | 'deposit'
+  | 'deposit_refund'
+  | 'chargeback'
+  | 'chargeback_reversal'
+  | 'escrow_lock'
+  | 'escrow_release'
+  | 'escrow_refund'
+  | 'escrow_split'
+  | 'worker_payout'
+  | 'transfer_reversal'
+  | 'pipeline_reserve'
+  | 'pipeline_allocation'
+  | 'pipeline_release'
+  | 'opening_balance';
+
+export interface LedgerAccount {
+  type: LedgerAccountType;
+  ownerId: string | null;
+}
+
+export interface LedgerLineInput {
+  account: LedgerAccount;
+  amountCents: Cents; // Positive = debit, negative = credit
+}
+
+export interface JournalEntryInput {
+  kind: LedgerEntryKind;
+  reference?: string;
+  metadata?: Record<string, any>;
+  lines: LedgerLineInput[];
+}
+
+export interface ReconciliationReport {
+  balanced: boolean; // Nothing below needs attention
+  unbalancedEntries: string[];
+  wallets: { userId: string; cachedCents: number; ledgerCents: number }[];
+  escrows: { jobId: string; escrowCents: number; ledgerCents: number }[];
+  pipelines: { pipelineId: string; reserveCents: number; ledgerCents: number }[];
+}
+
+export const accounts = {
+  userWallet: (userId: string): LedgerAccount => ({ type: 'user_wallet', ownerId: userId }),
+  userReceivable: (userId: string): LedgerAccount => ({ type: 'user_receivable', ownerId: userId }),
+  escrow: (jobId: string): LedgerAccount => ({ type: 'escrow', ownerId: jobId }),
+  pipelineReserve: (pipelineId: string): LedgerAccount => ({ type: 'pipeline_reserve', ownerId: pipelineId }),
+  workerPayable: (workerId: string): LedgerAccount => ({ type: 'worker_payable', ownerId: workerId }),
+  platformRevenue: (): LedgerAccount => ({ type: 'platform_revenue', ownerId: null }),
+  stripeClearing: (): LedgerAccount => ({ type: 'stripe_clearing', ownerId: null }),
+};
+
+export function debit(account: LedgerAccount, cents: Cents): LedgerLineInput {
+  return { account, amountCents: cents };
+}
+
+export function credit(account: LedgerAccount, cents: Cents): LedgerLineInput {
+  return { account, amountCents: -cents };
+}
+
+export class LedgerService {
+  /**
+   * Record a journal entry (inside the caller's transaction)
+   * CRITICAL: Throws unless the lines balance, and never lets a wallet go negative
+   * Returns null when every line is zero (nothing moved)
+   */
+  async post(tx: DbTransaction, input: JournalEntryInput): Promise<LedgerEntry | null> {
+    const lines = input.lines.filter((line) => line.amountCents !== 0);
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    if (lines.some((line) => !Number.isInteger(line.amountCents))) {
+      throw new Error(`Ledger entry ${input.kind} has a line that isn't a whole number of cents`);
+    }
+
+    const total = lines.reduce((sum, line) => sum + line.amountCents, 0);
+    if (total !== 0) {
+      throw new Error(`Ledger entry ${input.kind} doesn't balance (lines sum to ${total} cents)`);
+    }
+
+    const [entry] = await tx
+      .insert(ledgerEntries)
+      .values({
+        kind: input.kind,
+        reference: input.reference,
+        metadata: input.metadata,
+      })
+      .returning();
+
+    await tx.insert(ledgerLines).values(
+      lines.map((line) => ({
+        entryId: entry.id,
+        account: line.account.type,
+        ownerId: line.account.ownerId,
+        amountCents: line.amountCents,
+      }))
+    );
+
+    // Keep the cached wallet balance in step (a credit adds to the wallet)
+    for (const line of lines) {
+      if (line.account.type !== 'user_wallet') {
+        continue;
+      }
+
+      const delta = toDecimal(-line.amountCents);
+
+      const [updated] = await tx
+        .update(users)
+        .set({
+          walletBalance: sql`wallet_balance + ${delta}`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(users.id, line.account.ownerId!), sql`wallet_balance + ${delta} >= 0`))
+        .returning({ id: users.id });
+
+      if (!updated) {
+        throw new Error(`Wallet balance can't go negative (user ${line.account.ownerId})`);
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Total moved by entries of a kind with this reference (sum of their debits)
+   * Stripe reports refunds and reversals cumulatively - this is what's already recorded
+   */
+  async getPostedCents(tx: DbTransaction, kind: LedgerEntryKind, reference: string): Promise<Cents> {
+    const [row] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${ledgerLines.amountCents}), 0)` })
+      .from(ledgerLines)
+      .innerJoin(ledgerEntries, eq(ledgerEntries.id, ledgerLines.entryId))
+      .where(
+        and(
+          eq(ledgerEntries.kind, kind),
+          eq(ledgerEntries.reference, reference),
+          sql`${ledgerLines.amountCents} > 0`
+        )
+      );
+
+    return Number(row.total);
+  }
+
+  /**
+   * Fees the platform has earned (platform_revenue is credited, so its balance is negative)
+   */
+  async getPlatformRevenueCents(): Promise<Cents> {
+    const [row] = await db
+      .select({ total: sql<string>`COALESCE(-SUM(${ledgerLines.amountCents}), 0)` })
+      .from(ledgerLines)
+      .where(eq(ledgerLines.account, 'platform_revenue'));
+
+    return Number(row.total);
+  }
+
+  /**
+   * Post the exact opposite of the entries of a kind with this reference
+   * Returns null when there was nothing to reverse
+   */
+  async reverse(
+    tx: DbTransaction,
+    original: { kind: LedgerEntryKind; reference: string },
+    reversal: { kind: LedgerEntryKind; metadata?: Record<string, any> }
+  ): Promise<LedgerEntry | null> {
+    const lines = await tx
+      .select({
+        account: ledgerLines.account,
+        ownerId: ledgerLines.ownerId,
+        total: sql<string>`SUM(${ledgerLines.amountCents})`,
+      })
+      .from(ledgerLines)
+      .innerJoin(ledgerEntries, eq(ledgerEntries.id, ledgerLines.entryId))
+      .where(and(eq(ledgerEntries.kind, original.kind), eq(ledgerEntries.reference, original.reference)))
+      .groupBy(ledgerLines.account, ledgerLines.ownerId);
+
+    return await this.post(tx, {
+      kind: reversal.kind,
+      reference: original.reference,
+      metadata: reversal.metadata,
+      lines: lines.map((line) => ({
+        account: { type: line.account as LedgerAccountType, ownerId: line.ownerId },
+        amountCents: -Number(line.total),
+      })),
+    });
+  }
+
+  /**
+   * The user whose wallet a Stripe payment topped up (null if it wasn't a top-up)
+   */
+  async findDepositOwner(tx: DbTransaction, paymentIntentId: string): Promise<string | null> {
+    const [row] = await tx
+      .select({ ownerId: ledgerLines.ownerId })
+      .from(ledgerLines)
+      .innerJoin(ledgerEntries, eq(ledgerEntries.id, ledgerLines.entryId))
+      .where(
+        and(
+          eq(ledgerEntries.kind, 'deposit'),
+          sql`${ledgerEntries.metadata}->>'paymentIntentId' = ${paymentIntentId}`,
+          eq(ledgerLines.account, 'user_wallet')
+        )
+      )
+      .limit(1);
+
+    return row?.ownerId ?? null;
+  }
+
+  /**
+   * Lines on a user's wallet account, newest first, with the balance after each
+   */
+  async getWalletActivity(userId: string, limit = 20) {
+    const rows = await db.execute<{
+      id: string;
+      kind: LedgerEntryKind;
+      reference: string | null;
+      amount_cents: number;
+      balance_after_cents: string;
+      created_at: Date;
+    }>(sql`
+      SELECT * FROM (
+        SELECT
+          l.id,
+          e.kind,
+          e.reference,
+          l.amount_cents,
+          -SUM(l.amount_cents) OVER (ORDER BY e.created_at, l.id) AS balance_after_cents,
+          e.created_at
+        FROM ledger_lines l
+        JOIN ledger_entries e ON e.id = l.entry_id
+        WHERE l.account = 'user_wallet' AND l.owner_id = ${userId}
+      ) activity
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${limit}
+    `);
+
+    return Array.from(rows).map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      reference: row.reference,
+      amountCents: -row.amount_cents, // Positive = money into the wallet
+      balanceAfterCents: Number(row.balance_after_cents),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  /**
+   * Compare the ledger with the balances the rest of the app reads
+   * - every entry balances
+   * - users.walletBalance = user_wallet balance
+   * - locked escrow (minus milestone releases) = escrow balance, settled escrow = 0
+   * - pipeline budget - allocated - refunded = pipeline_reserve balance
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const unbalanced = await db.execute<{ entry_id: string }>(sql`
+      SELECT entry_id FROM ledger_lines
+      GROUP BY entry_id
+      HAVING SUM(amount_cents) <> 0
+    `);
+
+    const wallets = await db.execute<{ id: string; expected: string; ledger: string }>(sql`
+      SELECT u.id, ROUND(u.wallet_balance * 100) AS expected, COALESCE(-SUM(l.amount_cents), 0) AS ledger
+      FROM users u
+      LEFT JOIN ledger_lines l ON l.account = 'user_wallet' AND l.owner_id = u.id
+      GROUP BY u.id, u.wallet_balance
+      HAVING ROUND(u.wallet_balance * 100) <> COALESCE(-SUM(l.amount_cents), 0)
+    `);
+
+    const escrows = await db.execute<{ id: string; expected: string; ledger: string }>(sql`
+      SELECT e.job_id AS id, e.expected, COALESCE(-SUM(l.amount_cents), 0) AS ledger
+      FROM (
+        SELECT job_id, CASE WHEN status = 'locked' THEN ROUND((amount - released_amount) * 100) ELSE 0 END AS expected
+        FROM escrow
+      ) e
+      LEFT JOIN ledger_lines l ON l.account = 'escrow' AND l.owner_id = e.job_id
+      GROUP BY e.job_id, e.expected
+      HAVING e.expected <> COALESCE(-SUM(l.amount_cents), 0)
+    `);
+
+    const pipelineReserves = await db.execute<{ id: string; expected: string; ledger: string }>(sql`
+      SELECT p.id, ROUND((p.budget - p.allocated_amount - p.refunded_amount) * 100) AS expected,
+        COALESCE(-SUM(l.amount_cents), 0) AS ledger
+      FROM pipelines p
+      LEFT JOIN ledger_lines l ON l.account = 'pipeline_reserve' AND l.owner_id = p.id
+      GROUP BY p.id, p.budget, p.allocated_amount, p.refunded_amount
+      HAVING ROUND((p.budget - p.allocated_amount - p.refunded_amount) * 100) <> COALESCE(-SUM(l.amount_cents), 0)
+    `);
+
+    const report: ReconciliationReport = {
+      balanced: false,
+      unbalancedEntries: Array.from(unbalanced).map((row) => row.entry_id),
+      wallets: Array.from(wallets).map((row) => ({
+        userId: row.id,
+        cachedCents: Number(row.expected),
+        ledgerCents: Number(row.ledger),
+      })),
+      escrows: Array.from(escrows).map((row) => ({
+        jobId: row.id,
+        escrowCents: Number(row.expected),
+        ledgerCents: Number(row.ledger),
+      })),
+      pipelines: Array.from(pipelineReserves).map((row) => ({
+        pipelineId: row.id,
+        reserveCents: Number(row.expected),
+        ledgerCents: Number(row.ledger),
+      })),
+    };
+
+    report.balanced =
+      report.unbalancedEntries.length === 0 &&
+      report.wallets.length === 0 &&
+      report.escrows.length === 0 &&
+      report.pipelines.length === 0;
+
+    return report;
+  }
+
+  /**
+   * Bring balances from before the ledger existed onto it
+   * IMPORTANT: Only touches accounts with no ledger lines at all - drift on an
+   * account the ledger already tracks is a bug to investigate, not to paper over
+   */
+  async postOpeningBalances(): Promise<number> {
+    const report = await this.reconcile();
+
+    const openings = [
+      ...report.wallets.map((w) => ({ account: accounts.userWallet(w.userId), cents: w.cachedCents, ledgerCents: w.ledgerCents })),
+      ...report.escrows.map((e) => ({ account: accounts.escrow(e.jobId), cents: e.escrowCents, ledgerCents: e.ledgerCents })),
+      ...report.pipelines.map((p) => ({ account: accounts.pipelineReserve(p.pipelineId), cents: p.reserveCents, ledgerCents: p.ledgerCents })),
+    ].filter((opening) => opening.ledgerCents === 0 && opening.cents > 0);
+
+    let posted = 0;
+
+    for (const { account, cents } of openings) {
+      await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select({ id: ledgerLines.id })
+          .from(ledgerLines)
+          .where(and(eq(ledgerLines.account, account.type), eq(ledgerLines.ownerId, account.ownerId!)))
+          .limit(1);
+
+        if (existing) {
+          return;
+        }
+
+        // The wallet already holds this money - record it without moving it again
+        if (account.type === 'user_wallet') {
+          await tx
+            .update(users)
+            .set({ walletBalance: sql`wallet_balance - ${toDecimal(cents)}` })
+            .where(eq(users.id, account.ownerId!));
+        }
+
+        await this.post(tx, {
+          kind: 'opening_balance',
+          reference: account.ownerId!,
+          lines: [debit(accounts.stripeClearing(), cents), credit(account, cents)],
+        });
+
+        posted++;
+      });
+    }
+
+    return posted;
+  }
+}
+
+export const ledgerService = new LedgerService();
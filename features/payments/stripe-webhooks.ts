@@ -1,4 +1,12 @@
 import Stripe from 'stripe';
+import { db, type DbTransaction } from '@/lib/db';
+import { stripeEvents, workers, type StripeEvent, type Worker } from '@/lib/db/schema';
+import { and, desc, eq, ne, sql } from 'drizzle-orm';
+import { formatMoney } from '@/lib/money';
+import { auditLogger, SecurityEventType, Severity, type AuditEvent } from '@/lib/security/audit-logger';
+import { workerService } from '@/features/workers/service';
+import { connectStatusFromAccount } from '@/features/workers/payouts';
+import { ledgerService } from './ledger';
 import { walletService } from './wallet';
 
 if (!process.env.STRIPE_RESTRICTED_KEY) {
@@ -9,6 +17,35 @@ const stripe = new Stripe(process.env.STRIPE_RESTRICTED_KEY, {
   apiVersion: '2023-10-16',
 });
 
+// Expandable Stripe references come as an ID or the object
+function stripeId(ref: string | { id: string } | null | undefined): string | null {
+  return typeof ref === 'string' ? ref : ref?.id ?? null;
+}
+
+// The freeze a chargeback sets - closing the dispute in our favour lifts exactly this one
+function chargebackFreezeReason(disputeId: string): string {
+  return `Chargeback ${disputeId} opened on a wallet top-up`;
+}
+
+export type StripeEventStatus = 'received' | 'processed' | 'failed';
+
+export type StripeEventOutcome =
+  | { status: 'processed' }
+  | { status: 'duplicate' } // Processed by an earlier delivery - nothing done
+  | { status: 'failed'; error: string };
+
+/**
+ * Stripe webhooks
+ *
+ * Stripe delivers at least once, so every event is stored in stripe_events
+ * (keyed by its ID) before it's handled. Handling runs in one transaction with
+ * the event row locked and marks it processed on the way out - a redelivery,
+ * or a concurrent duplicate, finds it processed and does nothing. A failed
+ * event rolls back, stays 'failed' and is retried by Stripe or replayed by an admin.
+ *
+ * Money coming back out (refunds, chargebacks, reversed transfers) is posted to
+ * the ledger and freezes the affected buyer's wallet or worker's payouts.
+ */
 export class StripeWebhookHandler {
   /**
    * Verify webhook signature - CRITICAL SECURITY
@@ -32,27 +69,160 @@ export class StripeWebhookHandler {
   }
 
   /**
-   * Handle webhook events
+   * Record a verified event and process it (exactly once)
    */
-  async handleEvent(event: Stripe.Event): Promise<void> {
+  async handleEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+    // Record first - a failed event still leaves something to replay
+    await db
+      .insert(stripeEvents)
+      .values({ id: event.id, type: event.type, payload: event })
+      .onConflictDoNothing();
+
+    return await this.processEvent(event.id);
+  }
+
+  /**
+   * Process a stored event again (admin replay of a failed event)
+   */
+  async replayEvent(eventId: string): Promise<StripeEventOutcome> {
+    return await this.processEvent(eventId);
+  }
+
+  async getEvent(eventId: string): Promise<StripeEvent | null> {
+    const event = await db.query.stripeEvents.findFirst({
+      where: eq(stripeEvents.id, eventId),
+    });
+
+    return event ?? null;
+  }
+
+  /**
+   * Stored events, newest first
+   */
+  async listEvents(status?: StripeEventStatus, limit = 50): Promise<StripeEvent[]> {
+    return await db.query.stripeEvents.findMany({
+      where: status ? eq(stripeEvents.status, status) : undefined,
+      orderBy: [desc(stripeEvents.receivedAt)],
+      limit,
+    });
+  }
+
+  /**
+   * Run an event's handler and mark it processed, in one transaction
+   * Audit entries are written once the outcome is final - a rolled-back handler leaves none
+   * Never throws - failures are recorded on the event and returned
+   */
+  private async processEvent(eventId: string): Promise<StripeEventOutcome> {
+    let result: { outcome: StripeEventOutcome; audit: AuditEvent | null };
+
+    try {
+      result = await db.transaction(async (tx) => {
+        // CRITICAL: Row lock - a concurrent delivery of the same event waits here, then sees it processed
+        const [record] = await tx
+          .select()
+          .from(stripeEvents)
+          .where(eq(stripeEvents.id, eventId))
+          .for('update');
+
+        if (!record) {
+          throw new Error(`Stripe event ${eventId} not found`);
+        }
+
+        if (record.status === 'processed') {
+          return { outcome: { status: 'duplicate' } as const, audit: null };
+        }
+
+        const audit = await this.dispatch(record.payload as Stripe.Event, tx);
+
+        await tx
+          .update(stripeEvents)
+          .set({
+            status: 'processed',
+            attempts: record.attempts + 1,
+            lastError: null,
+            processedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(stripeEvents.id, eventId));
+
+        return { outcome: { status: 'processed' } as const, audit };
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Stripe event ${eventId} failed:`, error);
+
+      // The handler's writes rolled back - record the attempt so it can be replayed
+      const [failed] = await db
+        .update(stripeEvents)
+        .set({
+          status: 'failed',
+          attempts: sql`${stripeEvents.attempts} + 1`,
+          lastError: message,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(stripeEvents.id, eventId), ne(stripeEvents.status, 'processed')))
+        .returning({ attempts: stripeEvents.attempts });
+
+      // Nothing to report if a concurrent delivery processed it in the meantime
+      if (failed) {
+        await auditLogger.log({
+          eventType: SecurityEventType.STRIPE_EVENT_FAILED,
+          severity: Severity.WARNING,
+          message: `Stripe event ${eventId} failed: ${message}`,
+          details: { eventId, attempts: failed.attempts },
+          endpoint: '/api/webhooks/stripe',
+        });
+      }
+
+      return { status: 'failed', error: message };
+    }
+
+    if (result.audit) {
+      await auditLogger.log(result.audit);
+    }
+
+    return result.outcome;
+  }
+
+  /**
+   * Route an event to its handler (inside the processing transaction)
+   * Returns what to audit once the transaction has committed
+   */
+  private async dispatch(event: Stripe.Event, tx: DbTransaction): Promise<AuditEvent | null> {
     switch (event.type) {
       case 'checkout.session.completed':
-        await this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
-        break;
+        await this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session, tx);
+        return null;
+
+      case 'charge.refunded':
+        return await this.handleChargeRefunded(event.data.object as Stripe.Charge, tx);
+
+      case 'charge.dispute.created':
+        return await this.handleDisputeCreated(event.data.object as Stripe.Dispute, tx);
+
+      case 'charge.dispute.closed':
+        return await this.handleDisputeClosed(event.data.object as Stripe.Dispute, tx);
+
+      case 'transfer.reversed':
+        return await this.handleTransferReversed(event.data.object as Stripe.Transfer, tx);
+
+      case 'payout.failed':
+        return await this.handlePayoutFailed(event.data.object as Stripe.Payout, event.account ?? null, tx);
 
       case 'account.updated':
-        await this.handleAccountUpdated(event.data.object as Stripe.Account);
-        break;
+        await this.handleAccountUpdated(event.data.object as Stripe.Account, tx);
+        return null;
 
       default:
         console.log(`Unhandled event type: ${event.type}`);
+        return null;
     }
   }
 
   /**
    * Handle successful checkout (wallet top-up)
    */
-  private async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+  private async handleCheckoutCompleted(session: Stripe.Checkout.Session, tx: DbTransaction): Promise<void> {
     const { userId, type } = session.metadata || {};
 
     if (type !== 'wallet_topup' || !userId) {
@@ -60,23 +230,239 @@ export class StripeWebhookHandler {
       return;
     }
 
-    const amountInDollars = (session.amount_total || 0) / 100;
+    // Stripe amounts are already in cents
+    const amountCents = session.amount_total || 0;
+
+    await walletService.creditWallet(
+      userId,
+      amountCents,
+      { sessionId: session.id, paymentIntentId: stripeId(session.payment_intent) },
+      tx
+    );
+
+    console.log(`Credited ${formatMoney(amountCents)} to user ${userId}`);
+  }
+
+  /**
+   * A top-up was refunded (in full or in part) - take it back out of the wallet
+   * If the buyer already spent it, the rest is owed and the wallet is frozen
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge, tx: DbTransaction): Promise<AuditEvent | null> {
+    const userId = await this.findTopUpOwner(tx, stripeId(charge.payment_intent), charge.metadata);
+
+    if (!userId) {
+      console.log(`Skipping refund of charge ${charge.id} - not a wallet top-up`);
+      return null;
+    }
+
+    // amount_refunded is cumulative - only record what's new since the last refund event
+    const refundCents = charge.amount_refunded - (await ledgerService.getPostedCents(tx, 'deposit_refund', charge.id));
+
+    if (refundCents <= 0) {
+      return null;
+    }
+
+    const { fromWalletCents, owedCents } = await walletService.clawBackDeposit(tx, userId, refundCents, {
+      kind: 'deposit_refund',
+      reference: charge.id,
+    });
 
-    await walletService.creditWallet(userId, amountInDollars, session.id);
+    if (owedCents > 0) {
+      await walletService.freezeUser(
+        tx,
+        userId,
+        `Top-up ${charge.id} was refunded after it was spent - ${formatMoney(owedCents)} owed`
+      );
+    }
 
-    console.log(`Credited $${amountInDollars} to user ${userId}`);
+    return {
+      eventType: SecurityEventType.CHARGE_REFUNDED,
+      severity: owedCents > 0 ? Severity.WARNING : Severity.INFO,
+      message: `Wallet top-up refunded: ${formatMoney(refundCents)} (${formatMoney(owedCents)} owed)`,
+      details: { chargeId: charge.id, buyerId: userId, fromWalletCents, owedCents, frozen: owedCents > 0 },
+      endpoint: '/api/webhooks/stripe',
+    };
   }
 
   /**
-   * Handle Stripe Connect account updates
+   * A buyer disputed a top-up with their bank - Stripe has taken the money, so
+   * the wallet gives it up too and is frozen until the dispute closes
    */
-  private async handleAccountUpdated(account: Stripe.Account): Promise<void> {
-    // Check if account is fully onboarded
-    if (account.charges_enabled && account.payouts_enabled) {
-      console.log(`Worker account ${account.id} is fully enabled`);
-    } else {
-      console.log(`Worker account ${account.id} pending verification`);
+  private async handleDisputeCreated(dispute: Stripe.Dispute, tx: DbTransaction): Promise<AuditEvent | null> {
+    const userId = await this.findTopUpOwner(tx, stripeId(dispute.payment_intent), null);
+
+    if (!userId) {
+      console.log(`Skipping dispute ${dispute.id} - not on a wallet top-up`);
+      return null;
+    }
+
+    if ((await ledgerService.getPostedCents(tx, 'chargeback', dispute.id)) > 0) {
+      return null;
     }
+
+    const { fromWalletCents, owedCents } = await walletService.clawBackDeposit(tx, userId, dispute.amount, {
+      kind: 'chargeback',
+      reference: dispute.id,
+      metadata: { chargeId: stripeId(dispute.charge), reason: dispute.reason },
+    });
+
+    await walletService.freezeUser(tx, userId, chargebackFreezeReason(dispute.id));
+
+    return {
+      eventType: SecurityEventType.CHARGEBACK_OPENED,
+      severity: Severity.CRITICAL,
+      message: `Chargeback opened on a wallet top-up: ${formatMoney(dispute.amount)} (${dispute.reason})`,
+      details: { disputeId: dispute.id, buyerId: userId, fromWalletCents, owedCents, frozen: true },
+      endpoint: '/api/webhooks/stripe',
+    };
+  }
+
+  /**
+   * A chargeback closed - if we won, the money comes back to the wallet and
+   * the freeze it set is lifted; if we lost, both stay
+   */
+  private async handleDisputeClosed(dispute: Stripe.Dispute, tx: DbTransaction): Promise<AuditEvent | null> {
+    const userId = await this.findTopUpOwner(tx, stripeId(dispute.payment_intent), null);
+
+    if (!userId) {
+      console.log(`Skipping dispute ${dispute.id} - not on a wallet top-up`);
+      return null;
+    }
+
+    // warning_closed: an inquiry that never became a chargeback
+    const returned = dispute.status === 'won' || dispute.status === 'warning_closed';
+    let unfrozen = false;
+
+    if (returned) {
+      if ((await ledgerService.getPostedCents(tx, 'chargeback_reversal', dispute.id)) === 0) {
+        await ledgerService.reverse(
+          tx,
+          { kind: 'chargeback', reference: dispute.id },
+          { kind: 'chargeback_reversal', metadata: { status: dispute.status } }
+        );
+      }
+
+      unfrozen = await walletService.unfreezeUser(tx, userId, chargebackFreezeReason(dispute.id));
+    }
+
+    return {
+      eventType: SecurityEventType.CHARGEBACK_CLOSED,
+      severity: returned ? Severity.INFO : Severity.WARNING,
+      message: `Chargeback ${dispute.id} closed: ${dispute.status}`,
+      details: { disputeId: dispute.id, buyerId: userId, status: dispute.status, unfrozen },
+      endpoint: '/api/webhooks/stripe',
+    };
+  }
+
+  /**
+   * A payout transfer to a worker was reversed - the amount is owed to them
+   * again and their payouts are held until someone looks at why
+   */
+  private async handleTransferReversed(transfer: Stripe.Transfer, tx: DbTransaction): Promise<AuditEvent | null> {
+    const worker = await this.findConnectedWorker(tx, stripeId(transfer.destination));
+
+    if (!worker) {
+      console.log(`Skipping reversal of transfer ${transfer.id} - not to a worker`);
+      return null;
+    }
+
+    // amount_reversed is cumulative - only record what's new
+    const reversedCents =
+      transfer.amount_reversed - (await ledgerService.getPostedCents(tx, 'transfer_reversal', transfer.id));
+
+    // Nothing new reversed (e.g. an update to an earlier reversal) - don't freeze again
+    if (reversedCents <= 0) {
+      console.log(`Skipping transfer ${transfer.id} - no new reversal`);
+      return null;
+    }
+
+    await walletService.recordTransferReversal(tx, worker.id, transfer.id, reversedCents);
+
+    await walletService.freezeWorker(tx, worker.id, `Payout transfer ${transfer.id} was reversed`);
+
+    return {
+      eventType: SecurityEventType.TRANSFER_REVERSED,
+      severity: Severity.WARNING,
+      message: `Payout transfer to worker ${worker.name} reversed: ${formatMoney(reversedCents)}`,
+      details: { transferId: transfer.id, reversedCents, frozen: true },
+      workerId: worker.id,
+      jobId: transfer.metadata?.jobId,
+      endpoint: '/api/webhooks/stripe',
+    };
+  }
+
+  /**
+   * A worker's bank payout failed (Connect event on their account)
+   * The money stays in their Stripe balance, so nothing moves on our books -
+   * their payouts are held until they fix their bank details
+   */
+  private async handlePayoutFailed(
+    payout: Stripe.Payout,
+    accountId: string | null,
+    tx: DbTransaction
+  ): Promise<AuditEvent | null> {
+    const worker = await this.findConnectedWorker(tx, accountId);
+    const failure = payout.failure_message || payout.failure_code || 'unknown reason';
+
+    if (worker) {
+      await walletService.freezeWorker(tx, worker.id, `Bank payout ${payout.id} failed: ${failure}`);
+    }
+
+    return {
+      eventType: SecurityEventType.PAYOUT_FAILED,
+      severity: worker ? Severity.WARNING : Severity.CRITICAL,
+      message: worker
+        ? `Bank payout for worker ${worker.name} failed: ${failure}`
+        : `Platform bank payout failed: ${failure}`,
+      details: { payoutId: payout.id, accountId, amountCents: payout.amount, frozen: !!worker },
+      workerId: worker?.id,
+      endpoint: '/api/webhooks/stripe',
+    };
+  }
+
+  /**
+   * The user a top-up payment credited - from the ledger, or the payment's metadata
+   */
+  private async findTopUpOwner(
+    tx: DbTransaction,
+    paymentIntentId: string | null,
+    metadata: Stripe.Metadata | null
+  ): Promise<string | null> {
+    if (paymentIntentId) {
+      const owner = await ledgerService.findDepositOwner(tx, paymentIntentId);
+      if (owner) return owner;
+    }
+
+    return metadata?.type === 'wallet_topup' && metadata.userId ? metadata.userId : null;
+  }
+
+  private async findConnectedWorker(tx: DbTransaction, accountId: string | null): Promise<Worker | null> {
+    if (!accountId) {
+      return null;
+    }
+
+    const worker = await tx.query.workers.findFirst({
+      where: eq(workers.stripeAccountId, accountId),
+    });
+
+    return worker ?? null;
+  }
+
+  /**
+   * Handle Stripe Connect account updates - keep the worker's payout status current
+   */
+  private async handleAccountUpdated(account: Stripe.Account, tx: DbTransaction): Promise<void> {
+    const worker = await workerService.updateConnectStatus(account.id, connectStatusFromAccount(account), tx);
+
+    if (!worker) {
+      // Onboarding finishes before the worker registers - registration reads the status itself
+      console.log(`No worker for Stripe account ${account.id} yet`);
+      return;
+    }
+
+    console.log(
+      `Worker ${worker.id} Stripe account ${account.id}: payouts ${account.payouts_enabled ? 'enabled' : 'not enabled'}`
+    );
   }
 }
 
@@ -1,7 +1,9 @@
-import { db } from '@/lib/db';
-import { users, transactions, escrow, jobs, workers } from '@/lib/db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { db, type DbTransaction } from '@/lib/db';
+import { users, escrow, jobs, pipelines, workers, type Escrow } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
 import Stripe from 'stripe';
+import { formatMoney, fromDecimal, percentOf, splitFee, toDecimal, toDollars, type Cents } from '@/lib/money';
+import { accounts, credit, debit, ledgerService } from './ledger';
 
 if (!process.env.STRIPE_RESTRICTED_KEY) {
   throw new Error('STRIPE_RESTRICTED_KEY is not set');
@@ -11,13 +13,18 @@ const stripe = new Stripe(process.env.STRIPE_RESTRICTED_KEY, {
   apiVersion: '2023-10-16',
 });
 
-const PLATFORM_FEE_PERCENT = Number(process.env.PLATFORM_FEE_PERCENT) || 10;
+/**
+ * Escrowed cents not yet paid out (milestone approvals release part of it early)
+ */
+function unreleasedCents(record: Escrow): Cents {
+  return fromDecimal(record.amount) - fromDecimal(record.releasedAmount);
+}
 
 export class WalletService {
   /**
    * Create Stripe Checkout session to add funds to wallet
    */
-  async createAddFundsSession(userId: string, amount: number): Promise<string> {
+  async createAddFundsSession(userId: string, amountCents: Cents): Promise<string> {
     const user = await db.query.users.findFirst({
       where: eq(users.id, userId),
     });
@@ -36,12 +43,16 @@ export class WalletService {
               name: 'Wallet Credit',
               description: 'Add funds to your Agent Marketplace wallet',
             },
-            unit_amount: Math.round(amount * 100), // Convert to cents
+            unit_amount: amountCents,
           },
           quantity: 1,
         },
       ],
       mode: 'payment',
+      // Refund and dispute events arrive on the charge - this ties them back to the wallet
+      payment_intent_data: {
+        metadata: { userId, type: 'wallet_topup' },
+      },
       success_url: `${process.env.NEXT_PUBLIC_APP_URL}/wallet?success=true`,
       cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/wallet?cancelled=true`,
       metadata: {
@@ -55,94 +66,217 @@ export class WalletService {
 
   /**
    * Process successful payment and credit wallet
-   * Called by Stripe webhook handler
+   * Called by Stripe webhook handler (in the transaction that marks the event processed)
    */
-  async creditWallet(userId: string, amount: number, stripeSessionId: string): Promise<void> {
-    await db.transaction(async (tx) => {
-      // Update wallet balance
-      const [updatedUser] = await tx
-        .update(users)
-        .set({
-          walletBalance: sql`wallet_balance + ${amount}`,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, userId))
-        .returning();
-
-      // Log transaction
-      await tx.insert(transactions).values({
-        userId,
-        type: 'deposit',
-        amount: amount.toString(),
-        balanceAfter: updatedUser.walletBalance,
-        reference: stripeSessionId,
-        metadata: { source: 'stripe_checkout' },
+  async creditWallet(
+    userId: string,
+    cents: Cents,
+    checkout: { sessionId: string; paymentIntentId: string | null },
+    outerTx?: DbTransaction
+  ): Promise<void> {
+    const deposit = async (tx: DbTransaction) => {
+      await ledgerService.post(tx, {
+        kind: 'deposit',
+        reference: checkout.sessionId,
+        metadata: { source: 'stripe_checkout', paymentIntentId: checkout.paymentIntentId },
+        lines: [debit(accounts.stripeClearing(), cents), credit(accounts.userWallet(userId), cents)],
       });
+    };
+
+    if (outerTx) {
+      await deposit(outerTx);
+    } else {
+      await db.transaction(deposit);
+    }
+  }
+
+  /**
+   * Take a refunded or disputed top-up back out of the wallet
+   * Whatever the wallet no longer holds (already spent on jobs) is recorded as owed by the user
+   */
+  async clawBackDeposit(
+    tx: DbTransaction,
+    userId: string,
+    cents: Cents,
+    entry: { kind: 'deposit_refund' | 'chargeback'; reference: string; metadata?: Record<string, any> }
+  ): Promise<{ fromWalletCents: Cents; owedCents: Cents }> {
+    const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const fromWalletCents = Math.min(cents, fromDecimal(user.walletBalance));
+    const owedCents = cents - fromWalletCents;
+
+    await ledgerService.post(tx, {
+      kind: entry.kind,
+      reference: entry.reference,
+      metadata: entry.metadata,
+      lines: [
+        debit(accounts.userWallet(userId), fromWalletCents),
+        debit(accounts.userReceivable(userId), owedCents),
+        credit(accounts.stripeClearing(), cents),
+      ],
     });
+
+    return { fromWalletCents, owedCents };
+  }
+
+  /**
+   * A transfer to a worker came back - the amount is owed to them again until it's resolved
+   */
+  async recordTransferReversal(
+    tx: DbTransaction,
+    workerId: string,
+    transferId: string,
+    cents: Cents
+  ): Promise<void> {
+    await ledgerService.post(tx, {
+      kind: 'transfer_reversal',
+      reference: transferId,
+      metadata: { workerId },
+      lines: [debit(accounts.stripeClearing(), cents), credit(accounts.workerPayable(workerId), cents)],
+    });
+  }
+
+  /**
+   * Stop a wallet from funding jobs (refunded or disputed top-up)
+   */
+  async freezeUser(tx: DbTransaction, userId: string, reason: string): Promise<void> {
+    await tx
+      .update(users)
+      .set({ frozenAt: new Date(), frozenReason: reason, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Lift a freeze - only the one set for this reason (a later freeze stays)
+   */
+  async unfreezeUser(tx: DbTransaction, userId: string, reason: string): Promise<boolean> {
+    const [updated] = await tx
+      .update(users)
+      .set({ frozenAt: null, frozenReason: null, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), eq(users.frozenReason, reason)))
+      .returning({ id: users.id });
+
+    return !!updated;
+  }
+
+  /**
+   * Hold a worker's payouts (reversed transfer or failed bank payout)
+   */
+  async freezeWorker(tx: DbTransaction, workerId: string, reason: string): Promise<void> {
+    await tx
+      .update(workers)
+      .set({ frozenAt: new Date(), frozenReason: reason, updatedAt: new Date() })
+      .where(eq(workers.id, workerId));
   }
 
   /**
    * Deduct funds from wallet and lock in escrow
    * Used when user hires a worker
+   * Pass a transaction to make the lock part of the caller's unit of work
    */
   async lockFundsForJob(
     userId: string,
     jobId: string,
-    amount: number
+    cents: Cents,
+    outerTx?: DbTransaction
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      await db.transaction(async (tx) => {
-        // Check wallet balance
-        const user = await tx.query.users.findFirst({
-          where: eq(users.id, userId),
+      const lock = async (tx: DbTransaction) => {
+        await this.assertSufficientFunds(tx, userId, cents);
+
+        await ledgerService.post(tx, {
+          kind: 'escrow_lock',
+          reference: jobId,
+          lines: [debit(accounts.userWallet(userId), cents), credit(accounts.escrow(jobId), cents)],
         });
 
-        if (!user) {
-          throw new Error('User not found');
-        }
+        await this.createEscrow(tx, jobId, cents);
+      };
 
-        const currentBalance = parseFloat(user.walletBalance);
-        if (currentBalance < amount) {
-          const shortfall = amount - currentBalance;
-          throw new Error(
-            `Insufficient funds. Balance: $${currentBalance.toFixed(2)}, Required: $${amount.toFixed(2)} (short $${shortfall.toFixed(2)}). Add funds at ${process.env.NEXT_PUBLIC_APP_URL}/wallet`
-          );
-        }
+      if (outerTx) {
+        await lock(outerTx);
+      } else {
+        await db.transaction(lock);
+      }
 
-        // Deduct from wallet
-        const [updatedUser] = await tx
-          .update(users)
-          .set({
-            walletBalance: sql`wallet_balance - ${amount}`,
-            updatedAt: new Date(),
-          })
-          .where(eq(users.id, userId))
-          .returning();
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to lock funds',
+      };
+    }
+  }
 
-        // Calculate platform fee and worker payout
-        const platformFee = (amount * PLATFORM_FEE_PERCENT) / 100;
-        const workerPayout = amount - platformFee;
+  /**
+   * Deduct a pipeline's whole budget from the wallet up front
+   * Steps draw their job escrow from this reserve (lockPipelineFundsForJob)
+   */
+  async reservePipelineFunds(
+    userId: string,
+    pipelineId: string,
+    cents: Cents,
+    tx: DbTransaction
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.assertSufficientFunds(tx, userId, cents);
 
-        // Lock in escrow
-        await tx.insert(escrow).values({
-          jobId,
-          amount: amount.toString(),
-          platformFee: platformFee.toString(),
-          workerPayout: workerPayout.toString(),
-          status: 'locked',
-        });
+      await ledgerService.post(tx, {
+        kind: 'pipeline_reserve',
+        reference: pipelineId,
+        lines: [debit(accounts.userWallet(userId), cents), credit(accounts.pipelineReserve(pipelineId), cents)],
+      });
 
-        // Log transaction
-        await tx.insert(transactions).values({
-          userId,
-          type: 'deduction',
-          amount: amount.toString(),
-          balanceAfter: updatedUser.walletBalance,
-          reference: jobId,
-          metadata: { reason: 'job_escrow_lock' },
-        });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reserve funds',
+      };
+    }
+  }
+
+  /**
+   * Fund a pipeline step's job escrow from the pipeline reserve
+   * CRITICAL: Conditional on the unallocated reserve covering the amount
+   */
+  async lockPipelineFundsForJob(
+    pipelineId: string,
+    jobId: string,
+    cents: Cents,
+    tx: DbTransaction
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const amountText = toDecimal(cents);
+
+      const [pipeline] = await tx
+        .update(pipelines)
+        .set({ allocatedAmount: sql`${pipelines.allocatedAmount} + ${amountText}` })
+        .where(
+          and(
+            eq(pipelines.id, pipelineId),
+            sql`${pipelines.budget} - ${pipelines.allocatedAmount} - ${pipelines.refundedAmount} >= ${amountText}`
+          )
+        )
+        .returning();
+
+      if (!pipeline) {
+        throw new Error(`Pipeline reserve does not cover ${formatMoney(cents)} for this step`);
+      }
+
+      await ledgerService.post(tx, {
+        kind: 'pipeline_allocation',
+        reference: jobId,
+        metadata: { pipelineId },
+        lines: [debit(accounts.pipelineReserve(pipelineId), cents), credit(accounts.escrow(jobId), cents)],
       });
 
+      await this.createEscrow(tx, jobId, cents);
+
       return { success: true };
     } catch (error) {
       return {
@@ -152,29 +286,207 @@ export class WalletService {
     }
   }
 
+  /**
+   * Return a pipeline's unallocated reserve to the wallet (pipeline finished or failed)
+   * IMPORTANT: Idempotent - a second call finds nothing left to return
+   */
+  async releasePipelineReserve(
+    pipelineId: string
+  ): Promise<{ success: boolean; error?: string; refundAmount?: number }> {
+    try {
+      const refundAmount = await db.transaction(async (tx) => {
+        const [pipeline] = await tx
+          .select()
+          .from(pipelines)
+          .where(eq(pipelines.id, pipelineId))
+          .for('update');
+
+        if (!pipeline) {
+          throw new Error('Pipeline not found');
+        }
+
+        const leftoverCents =
+          fromDecimal(pipeline.budget) -
+          fromDecimal(pipeline.allocatedAmount) -
+          fromDecimal(pipeline.refundedAmount);
+
+        if (leftoverCents <= 0) {
+          return 0;
+        }
+
+        await tx
+          .update(pipelines)
+          .set({ refundedAmount: sql`${pipelines.refundedAmount} + ${toDecimal(leftoverCents)}` })
+          .where(eq(pipelines.id, pipelineId));
+
+        await ledgerService.post(tx, {
+          kind: 'pipeline_release',
+          reference: pipelineId,
+          lines: [
+            debit(accounts.pipelineReserve(pipelineId), leftoverCents),
+            credit(accounts.userWallet(pipeline.userId), leftoverCents),
+          ],
+        });
+
+        return toDollars(leftoverCents);
+      });
+
+      return { success: true, refundAmount };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to release pipeline reserve',
+      };
+    }
+  }
+
   /**
    * Release escrow funds to worker (on job approval)
+   * Pass a transaction to release as part of the approval itself
    */
   async releaseEscrowToWorker(
     jobId: string,
-    workerId: string
+    workerId: string,
+    outerTx?: DbTransaction
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      await db.transaction(async (tx) => {
-        // Get escrow record
-        const escrowRecord = await tx.query.escrow.findFirst({
-          where: eq(escrow.jobId, jobId),
+      const release = async (tx: DbTransaction) => {
+        const escrowRecord = await this.lockEscrowRow(tx, jobId);
+
+        // Get worker details
+        const worker = await tx.query.workers.findFirst({
+          where: eq(workers.id, workerId),
         });
 
-        if (!escrowRecord) {
-          throw new Error('Escrow record not found');
+        if (!worker || !worker.stripeAccountId) {
+          throw new Error('Worker not found or Stripe account not connected');
         }
 
-        if (escrowRecord.status !== 'locked') {
-          throw new Error(`Escrow already ${escrowRecord.status}`);
+        if (worker.frozenAt) {
+          throw new Error(`Worker payouts are frozen: ${worker.frozenReason}`);
+        }
+
+        // Milestone jobs: earlier milestones were already paid out - release the rest
+        const remainingCents = unreleasedCents(escrowRecord);
+        const payoutCents =
+          fromDecimal(escrowRecord.releasedAmount) > 0
+            ? splitFee(remainingCents).payout
+            : fromDecimal(escrowRecord.workerPayout);
+
+        // Transfer to worker via Stripe
+        const transfer = await stripe.transfers.create({
+          amount: payoutCents,
+          currency: 'usd',
+          destination: worker.stripeAccountId,
+          metadata: {
+            jobId,
+            workerId,
+          },
+        }, {
+          // A retried release reuses the transfer instead of paying twice
+          idempotencyKey: `escrow-release-${jobId}`,
+        });
+
+        await this.settleEscrowRow(tx, jobId, {
+          status: 'released',
+          releasedAmount: escrowRecord.amount,
+          stripeTransferId: transfer.id,
+          releasedAt: new Date(),
+        });
+
+        await this.postEscrowPayout(tx, {
+          jobId,
+          workerId,
+          releasedCents: remainingCents,
+          payoutCents,
+          stripeTransferId: transfer.id,
+        });
+      };
+
+      if (outerTx) {
+        await release(outerTx);
+      } else {
+        await db.transaction(release);
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to release escrow',
+      };
+    }
+  }
+
+  /**
+   * Refund escrowed funds to user wallet (on job rejection/cancellation)
+   * Pass a transaction to refund as part of the caller's status change
+   */
+  async refundEscrowToWallet(
+    jobId: string,
+    outerTx?: DbTransaction
+  ): Promise<{ success: boolean; error?: string; refundCents?: Cents }> {
+    try {
+      const refund = async (tx: DbTransaction): Promise<Cents> => {
+        const escrowRecord = await this.lockEscrowRow(tx, jobId);
+
+        const job = await tx.query.jobs.findFirst({
+          where: eq(jobs.id, jobId),
+        });
+
+        if (!job) {
+          throw new Error('Job not found');
+        }
+
+        // Refund to wallet (minus anything already paid out for approved milestones)
+        const refundCents = unreleasedCents(escrowRecord);
+
+        await ledgerService.post(tx, {
+          kind: 'escrow_refund',
+          reference: jobId,
+          metadata: { reason: 'job_rejected_or_cancelled' },
+          lines: [debit(accounts.escrow(jobId), refundCents), credit(accounts.userWallet(job.userId), refundCents)],
+        });
+
+        await this.settleEscrowRow(tx, jobId, { status: 'refunded', releasedAt: new Date() });
+
+        return refundCents;
+      };
+
+      const refundCents = outerTx ? await refund(outerTx) : await db.transaction(refund);
+
+      return { success: true, refundCents };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to refund escrow',
+      };
+    }
+  }
+
+  /**
+   * Pay out part of a job's escrow to the worker (milestone approval)
+   * Escrow stays locked for the rest; platform fee is taken from the released part
+   * Pass a transaction to release as part of the milestone approval itself
+   */
+  async releaseEscrowPortion(
+    jobId: string,
+    workerId: string,
+    releaseCents: Cents,
+    milestoneId: string,
+    outerTx?: DbTransaction
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const release = async (tx: DbTransaction) => {
+        // Concurrent milestone approvals must not over-release
+        const escrowRecord = await this.lockEscrowRow(tx, jobId);
+
+        if (releaseCents <= 0 || releaseCents > unreleasedCents(escrowRecord)) {
+          throw new Error(
+            `Cannot release ${formatMoney(releaseCents)} - only ${formatMoney(unreleasedCents(escrowRecord))} left in escrow`
+          );
         }
 
-        // Get worker details
         const worker = await tx.query.workers.findFirst({
           where: eq(workers.id, workerId),
         });
@@ -183,47 +495,47 @@ export class WalletService {
           throw new Error('Worker not found or Stripe account not connected');
         }
 
-        // Transfer to worker via Stripe
+        if (worker.frozenAt) {
+          throw new Error(`Worker payouts are frozen: ${worker.frozenReason}`);
+        }
+
+        const { payout: payoutCents } = splitFee(releaseCents);
+
         const transfer = await stripe.transfers.create({
-          amount: Math.round(parseFloat(escrowRecord.workerPayout) * 100),
+          amount: payoutCents,
           currency: 'usd',
           destination: worker.stripeAccountId,
           metadata: {
             jobId,
             workerId,
+            milestoneId,
           },
+        }, {
+          idempotencyKey: `milestone-release-${jobId}-${milestoneId}`,
         });
 
-        // Update escrow status
         await tx
           .update(escrow)
           .set({
-            status: 'released',
-            stripeTransferId: transfer.id,
-            releasedAt: new Date(),
+            releasedAmount: sql`${escrow.releasedAmount} + ${toDecimal(releaseCents)}`,
           })
           .where(eq(escrow.jobId, jobId));
 
-        // Log transaction for platform fee
-        const job = await tx.query.jobs.findFirst({
-          where: eq(jobs.id, jobId),
+        await this.postEscrowPayout(tx, {
+          jobId,
+          workerId,
+          releasedCents: releaseCents,
+          payoutCents,
+          stripeTransferId: transfer.id,
+          metadata: { milestoneId },
         });
+      };
 
-        if (job) {
-          await tx.insert(transactions).values({
-            userId: job.userId,
-            type: 'payout',
-            amount: escrowRecord.workerPayout,
-            balanceAfter: '0', // Not applicable for platform fees
-            reference: jobId,
-            metadata: {
-              workerId,
-              stripeTransferId: transfer.id,
-              platformFee: escrowRecord.platformFee,
-            },
-          });
-        }
-      });
+      if (outerTx) {
+        await release(outerTx);
+      } else {
+        await db.transaction(release);
+      }
 
       return { success: true };
     } catch (error) {
@@ -235,23 +547,24 @@ export class WalletService {
   }
 
   /**
-   * Refund escrowed funds to user wallet (on job rejection/cancellation)
+   * Split escrowed funds between worker and buyer (kill fees, partial refunds)
+   * Worker's share is paid out minus the platform fee; the rest goes back to the wallet
+   * Pass a transaction to settle as part of the caller's status change
    */
-  async refundEscrowToWallet(jobId: string): Promise<{ success: boolean; error?: string }> {
-    try {
-      await db.transaction(async (tx) => {
-        // Get escrow and job
-        const escrowRecord = await tx.query.escrow.findFirst({
-          where: eq(escrow.jobId, jobId),
-        });
-
-        if (!escrowRecord) {
-          throw new Error('Escrow record not found');
-        }
+  async splitEscrow(
+    jobId: string,
+    workerId: string,
+    workerSharePercent: number,
+    reason: string,
+    outerTx?: DbTransaction
+  ): Promise<{ success: boolean; error?: string; refundCents?: Cents; workerPayoutCents?: Cents }> {
+    if (workerSharePercent < 0 || workerSharePercent > 100) {
+      return { success: false, error: 'Worker share must be between 0 and 100 percent' };
+    }
 
-        if (escrowRecord.status !== 'locked') {
-          throw new Error(`Escrow already ${escrowRecord.status}`);
-        }
+    try {
+      const settle = async (tx: DbTransaction) => {
+        const escrowRecord = await this.lockEscrowRow(tx, jobId);
 
         const job = await tx.query.jobs.findFirst({
           where: eq(jobs.id, jobId),
@@ -261,45 +574,208 @@ export class WalletService {
           throw new Error('Job not found');
         }
 
-        // Refund to wallet
-        const [updatedUser] = await tx
-          .update(users)
-          .set({
-            walletBalance: sql`wallet_balance + ${escrowRecord.amount}`,
-            updatedAt: new Date(),
-          })
-          .where(eq(users.id, job.userId))
-          .returning();
+        // The two halves always add up to what's still escrowed
+        const amountCents = unreleasedCents(escrowRecord);
+        const workerGrossCents = percentOf(amountCents, workerSharePercent);
+        const refundCents = amountCents - workerGrossCents;
+        const { fee: platformFeeCents, payout: workerPayoutCents } = splitFee(workerGrossCents);
 
-        // Update escrow status
-        await tx
-          .update(escrow)
-          .set({
-            status: 'refunded',
-            releasedAt: new Date(),
-          })
-          .where(eq(escrow.jobId, jobId));
+        let stripeTransferId: string | null = null;
+
+        if (workerPayoutCents > 0) {
+          const worker = await tx.query.workers.findFirst({
+            where: eq(workers.id, workerId),
+          });
+
+          if (!worker || !worker.stripeAccountId) {
+            throw new Error('Worker not found or Stripe account not connected');
+          }
+
+          if (worker.frozenAt) {
+            throw new Error(`Worker payouts are frozen: ${worker.frozenReason}`);
+          }
 
-        // Log transaction
-        await tx.insert(transactions).values({
-          userId: job.userId,
-          type: 'refund',
-          amount: escrowRecord.amount,
-          balanceAfter: updatedUser.walletBalance,
+          const transfer = await stripe.transfers.create({
+            amount: workerPayoutCents,
+            currency: 'usd',
+            destination: worker.stripeAccountId,
+            metadata: {
+              jobId,
+              workerId,
+              reason,
+            },
+          }, {
+            idempotencyKey: `escrow-split-${jobId}-${reason}`,
+          });
+
+          stripeTransferId = transfer.id;
+        }
+
+        // Escrow now reflects what was actually paid out
+        await this.settleEscrowRow(tx, jobId, {
+          status: 'split',
+          platformFee: toDecimal(platformFeeCents),
+          workerPayout: toDecimal(workerPayoutCents),
+          stripeTransferId,
+          releasedAt: new Date(),
+        });
+
+        await ledgerService.post(tx, {
+          kind: 'escrow_split',
           reference: jobId,
-          metadata: { reason: 'job_rejected_or_cancelled' },
+          metadata: { reason, workerSharePercent },
+          lines: [
+            debit(accounts.escrow(jobId), amountCents),
+            credit(accounts.userWallet(job.userId), refundCents),
+            credit(accounts.platformRevenue(), platformFeeCents),
+            credit(accounts.workerPayable(workerId), workerPayoutCents),
+          ],
         });
-      });
 
-      return { success: true };
+        if (workerPayoutCents > 0) {
+          await ledgerService.post(tx, {
+            kind: 'worker_payout',
+            reference: stripeTransferId!,
+            metadata: { jobId, workerId },
+            lines: [
+              debit(accounts.workerPayable(workerId), workerPayoutCents),
+              credit(accounts.stripeClearing(), workerPayoutCents),
+            ],
+          });
+        }
+
+        return { refundCents, workerPayoutCents };
+      };
+
+      const split = outerTx ? await settle(outerTx) : await db.transaction(settle);
+
+      return { success: true, ...split };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to refund escrow',
+        error: error instanceof Error ? error.message : 'Failed to split escrow',
       };
     }
   }
 
+  /**
+   * Friendly error before a wallet debit (the ledger refuses overdrafts either way)
+   */
+  private async assertSufficientFunds(tx: DbTransaction, userId: string, cents: Cents): Promise<void> {
+    const user = await tx.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.frozenAt) {
+      throw new Error(`Wallet is frozen: ${user.frozenReason}. Contact support to resolve it.`);
+    }
+
+    const balanceCents = fromDecimal(user.walletBalance);
+    if (balanceCents < cents) {
+      throw new Error(
+        `Insufficient funds. Balance: ${formatMoney(balanceCents)}, Required: ${formatMoney(cents)} (short ${formatMoney(cents - balanceCents)}). Add funds at ${process.env.NEXT_PUBLIC_APP_URL}/wallet`
+      );
+    }
+  }
+
+  /**
+   * Ledger entries for paying out escrow: the released amount is split into the
+   * platform fee and the worker's share, which then leaves through the Stripe transfer
+   */
+  private async postEscrowPayout(
+    tx: DbTransaction,
+    payout: {
+      jobId: string;
+      workerId: string;
+      releasedCents: Cents;
+      payoutCents: Cents;
+      stripeTransferId: string;
+      metadata?: Record<string, any>;
+    }
+  ): Promise<void> {
+    const { jobId, workerId, releasedCents, payoutCents, stripeTransferId } = payout;
+
+    await ledgerService.post(tx, {
+      kind: 'escrow_release',
+      reference: jobId,
+      metadata: { workerId, ...payout.metadata },
+      lines: [
+        debit(accounts.escrow(jobId), releasedCents),
+        credit(accounts.platformRevenue(), releasedCents - payoutCents),
+        credit(accounts.workerPayable(workerId), payoutCents),
+      ],
+    });
+
+    await ledgerService.post(tx, {
+      kind: 'worker_payout',
+      reference: stripeTransferId,
+      metadata: { jobId, workerId },
+      lines: [debit(accounts.workerPayable(workerId), payoutCents), credit(accounts.stripeClearing(), payoutCents)],
+    });
+  }
+
+  /**
+   * A job's escrow row, locked for the rest of the transaction
+   * CRITICAL: Every settlement reads escrow through this, so a milestone release and a
+   * refund/split can't both pay out the same unreleased cents
+   */
+  private async lockEscrowRow(tx: DbTransaction, jobId: string): Promise<Escrow> {
+    const [escrowRecord] = await tx
+      .select()
+      .from(escrow)
+      .where(eq(escrow.jobId, jobId))
+      .for('update');
+
+    if (!escrowRecord) {
+      throw new Error('Escrow record not found');
+    }
+
+    if (escrowRecord.status !== 'locked') {
+      throw new Error(`Escrow already ${escrowRecord.status}`);
+    }
+
+    return escrowRecord;
+  }
+
+  /**
+   * Move locked escrow to its final status (conditional on it still being locked)
+   */
+  private async settleEscrowRow(
+    tx: DbTransaction,
+    jobId: string,
+    changes: Partial<Omit<Escrow, 'id' | 'jobId'>>
+  ): Promise<void> {
+    const [settled] = await tx
+      .update(escrow)
+      .set(changes)
+      .where(and(eq(escrow.jobId, jobId), eq(escrow.status, 'locked')))
+      .returning({ id: escrow.id });
+
+    if (!settled) {
+      throw new Error('Escrow was settled concurrently');
+    }
+  }
+
+  /**
+   * Lock a job's escrow row (funds already taken from the wallet or a pipeline reserve)
+   */
+  private async createEscrow(tx: DbTransaction, jobId: string, cents: Cents): Promise<void> {
+    const { fee, payout } = splitFee(cents);
+
+    // Lock in escrow
+    await tx.insert(escrow).values({
+      jobId,
+      amount: toDecimal(cents),
+      platformFee: toDecimal(fee),
+      workerPayout: toDecimal(payout),
+      status: 'locked',
+    });
+  }
+
   /**
    * Get wallet balance and recent transactions
    */
@@ -312,15 +788,19 @@ export class WalletService {
       throw new Error('User not found');
     }
 
-    const recentTransactions = await db.query.transactions.findMany({
-      where: eq(transactions.userId, userId),
-      orderBy: (transactions, { desc }) => [desc(transactions.createdAt)],
-      limit: 20,
-    });
+    const activity = await ledgerService.getWalletActivity(userId, 20);
 
     return {
-      balance: parseFloat(user.walletBalance),
-      transactions: recentTransactions,
+      balance: toDollars(fromDecimal(user.walletBalance)),
+      // Wallet lines from the ledger, in the shape the wallet page shows
+      transactions: activity.map((line) => ({
+        id: line.id,
+        type: line.amountCents < 0 ? 'deduction' : line.kind === 'deposit' ? 'deposit' : 'refund',
+        amount: toDecimal(Math.abs(line.amountCents)),
+        balanceAfter: toDecimal(line.balanceAfterCents),
+        reference: line.reference,
+        createdAt: line.createdAt,
+      })),
     };
   }
 
@@ -338,7 +818,7 @@ export class WalletService {
       return false;
     }
 
-    return parseFloat(user.walletBalance) < minBalance;
+    return fromDecimal(user.walletBalance) < minBalance * 100;
   }
 }
 
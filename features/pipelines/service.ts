@@ -0,0 +1,448 @@
+import { db } from '@/lib/db';
+import { withAdvisoryLock, ADVISORY_LOCKS } from '@/lib/db/locks';
+import {
+  jobs,
+  pipelines,
+  pipelineSteps,
+  type Job,
+  type Pipeline,
+  type PipelineStep,
+} from '@/lib/db/schema';
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import { fromDecimal, fromDollars, toDecimal, toDollars, type Cents } from '@/lib/money';
+import { jobService } from '@/features/jobs/service';
+import { readDeliveredFiles } from '@/features/jobs/artifacts';
+import { walletService } from '@/features/payments/wallet';
+import { workerService } from '@/features/workers/service';
+import type { WorkerOffer } from '@/lib/types/worker';
+
+export interface PipelineStepInput {
+  type: 'skill' | 'worker';
+  skillId?: string;
+  workerId?: string;
+  offerId?: string;
+  task: string;
+  inputs?: Record<string, any>;
+  budget?: number; // Skill steps only - worker steps are priced by the offer
+}
+
+export interface CreatePipelineInput {
+  userId: string;
+  name?: string;
+  context?: Record<string, any>; // Context for the first step
+  steps: PipelineStepInput[];
+}
+
+export interface PipelineSweepResult {
+  skipped: boolean; // Another run held the lock
+  checked: number;
+  reservesReleased: number;
+  failed: string[]; // Pipeline IDs that need manual attention
+}
+
+// Step job outcomes that stop the pipeline
+const FAILED_JOB_STATUSES = ['cancelled', 'declined', 'rejected', 'resolved'];
+
+/**
+ * Pipelines
+ *
+ * Ordered skill/worker steps run one after another; each step's deliverable
+ * becomes the next step's context. The whole budget is reserved from the wallet
+ * up front and each step's job escrow is funded from that reserve. When the
+ * pipeline completes or fails, whatever wasn't allocated goes back to the wallet
+ * (a failed step's own escrow is refunded by the job flow that ended it).
+ */
+export class PipelineService {
+  /**
+   * Create a pipeline, reserve its budget and start the first step
+   */
+  async createPipeline(input: CreatePipelineInput) {
+    if (input.steps.length === 0) {
+      throw new Error('Pipeline needs at least one step');
+    }
+
+    // Price every step up front so the reserve covers the whole run
+    const stepBudgets: Cents[] = [];
+    for (const step of input.steps) {
+      stepBudgets.push(await this.getStepBudget(step));
+    }
+
+    const totalCents = stepBudgets.reduce((sum, budget) => sum + budget, 0);
+
+    const { pipeline, steps } = await db.transaction(async (tx) => {
+      const [pipeline] = await tx
+        .insert(pipelines)
+        .values({
+          userId: input.userId,
+          name: input.name,
+          context: input.context,
+          budget: toDecimal(totalCents),
+        })
+        .returning();
+
+      const steps = await tx
+        .insert(pipelineSteps)
+        .values(
+          input.steps.map((step, index) => ({
+            pipelineId: pipeline.id,
+            position: index + 1,
+            type: step.type,
+            skillId: step.skillId,
+            workerId: step.workerId,
+            offerId: step.offerId,
+            task: step.task,
+            inputs: step.inputs,
+            budget: toDecimal(stepBudgets[index]),
+          }))
+        )
+        .returning();
+
+      const reserveResult = await walletService.reservePipelineFunds(
+        input.userId,
+        pipeline.id,
+        totalCents,
+        tx
+      );
+
+      if (!reserveResult.success) {
+        throw new Error(reserveResult.error || 'Failed to reserve funds');
+      }
+
+      return { pipeline, steps };
+    });
+
+    const firstStep = steps.sort((a, b) => a.position - b.position)[0];
+    await this.startStep(pipeline, firstStep, null);
+
+    return (await this.getPipelineStatus(pipeline.id, input.userId))!;
+  }
+
+  /**
+   * Price of a step: the skill budget, or the worker offer's current price
+   * Reserved with the pipeline and stored on the step - that's what the step's job is charged
+   */
+  private async getStepBudget(step: PipelineStepInput): Promise<Cents> {
+    if (step.type === 'skill') {
+      if (!step.skillId || step.budget === undefined) {
+        throw new Error('Skill steps need a skillId and budget');
+      }
+      return fromDollars(step.budget);
+    }
+
+    if (!step.workerId || !step.offerId) {
+      throw new Error('Worker steps need a workerId and offerId');
+    }
+
+    const worker = await workerService.getWorker(step.workerId);
+
+    if (!worker) {
+      throw new Error('Worker not found');
+    }
+
+    const offers = (worker.offers as WorkerOffer[] | null) || [];
+    const offer = offers.find((o) => o.id === step.offerId);
+
+    if (!offer) {
+      throw new Error(`Offer ${step.offerId} not found for worker ${worker.name}`);
+    }
+
+    return offer.priceCents;
+  }
+
+  /**
+   * Start a step's job, handing it the previous step's deliverable
+   * A step that can't start fails the pipeline
+   */
+  private async startStep(
+    pipeline: Pipeline,
+    step: PipelineStep,
+    previousJob: Job | null
+  ): Promise<void> {
+    // CRITICAL: Claim the step so concurrent advances can't start it twice
+    const [claimed] = await db
+      .update(pipelineSteps)
+      .set({ status: 'running', startedAt: new Date() })
+      .where(and(eq(pipelineSteps.id, step.id), eq(pipelineSteps.status, 'pending')))
+      .returning();
+
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      const job = await jobService.createJob({
+        userId: pipeline.userId,
+        type: step.type as 'skill' | 'worker',
+        skillId: step.skillId ?? undefined,
+        workerId: step.workerId ?? undefined,
+        offerId: step.offerId ?? undefined,
+        task: step.task,
+        inputs: (step.inputs as Record<string, any> | null) ?? undefined,
+        context: previousJob
+          ? await this.getHandoffContext(previousJob)
+          : (pipeline.context as Record<string, any> | null) ?? undefined,
+        budget: step.type === 'skill' ? toDollars(fromDecimal(step.budget)) : undefined,
+        reservedPriceCents: step.type === 'worker' ? fromDecimal(step.budget) : undefined,
+        queueIfBusy: true,
+        pipelineId: pipeline.id,
+      });
+
+      await db.update(pipelineSteps).set({ jobId: job.id }).where(eq(pipelineSteps.id, step.id));
+    } catch (error) {
+      console.error(`Pipeline ${pipeline.id} step ${step.position} failed to start:`, error);
+      await this.failPipeline(
+        pipeline.id,
+        step.id,
+        `Step ${step.position} failed to start: ${error instanceof Error ? error.message : 'unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Previous step's deliverable, as the next step's context
+   * Files go under `files` so they're secrets-scanned before reaching a worker
+   */
+  private async getHandoffContext(previousJob: Job): Promise<Record<string, any>> {
+    return {
+      files: await readDeliveredFiles(previousJob),
+      previousStep: {
+        jobId: previousJob.id,
+        task: previousJob.task,
+        deliverableText: previousJob.deliverableText,
+        deliverableUrl: previousJob.deliverableUrl,
+      },
+    };
+  }
+
+  /**
+   * Move a pipeline forward based on its running step's job
+   * IMPORTANT: Idempotent - called after approvals, on status checks and by the cron sweep
+   */
+  async syncPipeline(pipelineId: string): Promise<void> {
+    const pipeline = await db.query.pipelines.findFirst({
+      where: eq(pipelines.id, pipelineId),
+    });
+
+    if (!pipeline || pipeline.status !== 'running') {
+      return;
+    }
+
+    const steps = await this.getSteps(pipelineId);
+    const running = steps.find((s) => s.status === 'running');
+
+    // Between steps (e.g. crashed after completing one) - start the next
+    if (!running) {
+      const next = steps.find((s) => s.status === 'pending');
+
+      if (!next) {
+        await this.completePipeline(pipelineId);
+        return;
+      }
+
+      const previous = steps.filter((s) => s.status === 'completed').pop();
+      const previousJob = previous?.jobId ? await jobService.getJob(previous.jobId) : null;
+      await this.startStep(pipeline, next, previousJob);
+      return;
+    }
+
+    // Still being created
+    if (!running.jobId) {
+      return;
+    }
+
+    const job = await jobService.getJob(running.jobId);
+
+    if (!job) {
+      return;
+    }
+
+    if (job.status === 'approved') {
+      // CRITICAL: Claim completion so only one caller starts the next step
+      const [completed] = await db
+        .update(pipelineSteps)
+        .set({ status: 'completed', completedAt: new Date() })
+        .where(and(eq(pipelineSteps.id, running.id), eq(pipelineSteps.status, 'running')))
+        .returning();
+
+      if (!completed) {
+        return;
+      }
+
+      const next = steps.find((s) => s.position === running.position + 1);
+
+      if (next) {
+        await this.startStep(pipeline, next, job);
+      } else {
+        await this.completePipeline(pipelineId);
+      }
+      return;
+    }
+
+    if (FAILED_JOB_STATUSES.includes(job.status)) {
+      await this.failPipeline(pipelineId, running.id, `Step ${running.position} ended ${job.status}`);
+    }
+  }
+
+  /**
+   * Mark a pipeline completed and return any unallocated reserve
+   */
+  private async completePipeline(pipelineId: string): Promise<void> {
+    const [completed] = await db
+      .update(pipelines)
+      .set({ status: 'completed', completedAt: new Date() })
+      .where(and(eq(pipelines.id, pipelineId), eq(pipelines.status, 'running')))
+      .returning();
+
+    if (completed) {
+      await this.releaseReserve(pipelineId);
+    }
+  }
+
+  /**
+   * Stop a pipeline: fail the step, skip the rest and return the unallocated reserve
+   */
+  private async failPipeline(pipelineId: string, stepId: string, reason: string): Promise<void> {
+    const [failed] = await db
+      .update(pipelines)
+      .set({ status: 'failed', failureReason: reason, completedAt: new Date() })
+      .where(and(eq(pipelines.id, pipelineId), eq(pipelines.status, 'running')))
+      .returning();
+
+    if (!failed) {
+      return;
+    }
+
+    await db
+      .update(pipelineSteps)
+      .set({ status: 'failed', completedAt: new Date() })
+      .where(eq(pipelineSteps.id, stepId));
+
+    await db
+      .update(pipelineSteps)
+      .set({ status: 'skipped' })
+      .where(and(eq(pipelineSteps.pipelineId, pipelineId), eq(pipelineSteps.status, 'pending')));
+
+    await this.releaseReserve(pipelineId);
+  }
+
+  /**
+   * Return unallocated reserve to the wallet
+   * Never fails the caller - the cron sweep retries finished pipelines with funds left
+   */
+  private async releaseReserve(pipelineId: string): Promise<void> {
+    const result = await walletService.releasePipelineReserve(pipelineId);
+
+    if (!result.success) {
+      console.error(`Failed to release reserve for pipeline ${pipelineId}: ${result.error}`);
+    }
+  }
+
+  /**
+   * Advance running pipelines and retry reserve releases for finished ones
+   * IMPORTANT: Safe to run concurrently (advisory lock + conditional step claims)
+   */
+  async processPipelines(): Promise<PipelineSweepResult> {
+    const run = await withAdvisoryLock(ADVISORY_LOCKS.PIPELINES, async () => {
+      const result: PipelineSweepResult = {
+        skipped: false,
+        checked: 0,
+        reservesReleased: 0,
+        failed: [],
+      };
+
+      const runningPipelines = await db.query.pipelines.findMany({
+        where: eq(pipelines.status, 'running'),
+      });
+
+      result.checked = runningPipelines.length;
+
+      for (const pipeline of runningPipelines) {
+        try {
+          await this.syncPipeline(pipeline.id);
+        } catch (error) {
+          console.error(`Failed to sync pipeline ${pipeline.id}:`, error);
+          result.failed.push(pipeline.id);
+        }
+      }
+
+      const finishedWithReserve = await db.query.pipelines.findMany({
+        where: and(
+          inArray(pipelines.status, ['completed', 'failed']),
+          sql`${pipelines.budget} - ${pipelines.allocatedAmount} - ${pipelines.refundedAmount} > 0`
+        ),
+      });
+
+      for (const pipeline of finishedWithReserve) {
+        const release = await walletService.releasePipelineReserve(pipeline.id);
+
+        if (release.success) {
+          result.reservesReleased++;
+        } else {
+          result.failed.push(pipeline.id);
+        }
+      }
+
+      return result;
+    });
+
+    if (!run.acquired) {
+      return { skipped: true, checked: 0, reservesReleased: 0, failed: [] };
+    }
+
+    return run.result;
+  }
+
+  /**
+   * Pipeline with its steps and each step's job status
+   * Returns null if the pipeline doesn't exist or belongs to someone else
+   */
+  async getPipelineStatus(pipelineId: string, userId: string) {
+    const pipeline = await db.query.pipelines.findFirst({
+      where: eq(pipelines.id, pipelineId),
+    });
+
+    if (!pipeline || pipeline.userId !== userId) {
+      return null;
+    }
+
+    const steps = await db
+      .select({
+        step: pipelineSteps,
+        job: {
+          id: jobs.id,
+          status: jobs.status,
+          deliveredAt: jobs.deliveredAt,
+          deliverableUrl: jobs.deliverableUrl,
+        },
+      })
+      .from(pipelineSteps)
+      .leftJoin(jobs, eq(pipelineSteps.jobId, jobs.id))
+      .where(eq(pipelineSteps.pipelineId, pipelineId))
+      .orderBy(asc(pipelineSteps.position));
+
+    return {
+      pipeline,
+      steps: steps.map(({ step, job }) => ({ ...step, job })),
+    };
+  }
+
+  /**
+   * User's pipelines (newest first)
+   */
+  async getUserPipelines(userId: string): Promise<Pipeline[]> {
+    return await db.query.pipelines.findMany({
+      where: eq(pipelines.userId, userId),
+      orderBy: [desc(pipelines.createdAt)],
+    });
+  }
+
+  private async getSteps(pipelineId: string): Promise<PipelineStep[]> {
+    return await db
+      .select()
+      .from(pipelineSteps)
+      .where(eq(pipelineSteps.pipelineId, pipelineId))
+      .orderBy(asc(pipelineSteps.position));
+  }
+}
+
+export const pipelineService = new PipelineService();
@@ -0,0 +1,373 @@
+import { db } from '@/lib/db';
+import { bids, jobPostings, workers, type Bid, type Job, type JobPosting, type Worker } from '@/lib/db/schema';
+import { and, desc, eq, ne, sql } from 'drizzle-orm';
+import { jobService } from '@/features/jobs/service';
+import {
+  BidAboveCeilingError,
+  BidChangedError,
+  BidNotFoundError,
+  JobDeclinedError,
+  PostingClosedError,
+  PostingNotFoundError,
+  WorkerPayoutsNotReadyError,
+  WorkerUnavailableError,
+} from '@/features/jobs/errors';
+import { sendWorkerWebhook } from '@/features/jobs/worker-webhook';
+import { getPayoutBlockers } from '@/features/workers/payouts';
+import { formatMoney, fromDecimal, fromDollars, toDecimal, toDollars, type Cents } from '@/lib/money';
+import { sanitizeText } from '@/lib/sanitize';
+import type { WorkerOffer } from '@/lib/types/worker';
+
+// How long workers can bid when the buyer doesn't say
+const DEFAULT_BIDDING_HOURS = Number(process.env.BIDDING_WINDOW_HOURS) || 24;
+
+export interface CreatePostingInput {
+  userId: string;
+  task: string;
+  inputs?: Record<string, any>;
+  context?: Record<string, any>; // Only sent to the awarded worker
+  specialty: string;
+  budgetCeiling: number;
+  biddingHours?: number; // Defaults to BIDDING_WINDOW_HOURS
+}
+
+export interface BidInput {
+  priceCents: number;
+  etaMinutes: number;
+  revisionsIncluded?: number;
+  message?: string;
+}
+
+/**
+ * Open job postings
+ *
+ * The buyer posts a task with a budget ceiling and a specialty; matching workers
+ * get it through their webhook and answer with signed bids. Nothing is locked
+ * until the buyer awards a bid - that creates a regular worker job with escrow
+ * at the bid price, and the bid's ETA and revisions as its terms.
+ */
+export class PostingService {
+  /**
+   * Create a posting and invite every worker with the specialty
+   */
+  async createPosting(input: CreatePostingInput): Promise<{ posting: JobPosting; invitedWorkers: number }> {
+    const biddingHours = input.biddingHours ?? DEFAULT_BIDDING_HOURS;
+
+    const [posting] = await db
+      .insert(jobPostings)
+      .values({
+        userId: input.userId,
+        task: input.task,
+        inputs: input.inputs,
+        context: input.context,
+        specialty: input.specialty.trim(),
+        budgetCeiling: toDecimal(fromDollars(input.budgetCeiling)),
+        biddingClosesAt: new Date(Date.now() + biddingHours * 60 * 60 * 1000),
+      })
+      .returning();
+
+    const invitedWorkers = await this.broadcastPosting(posting);
+
+    return { posting, invitedWorkers };
+  }
+
+  /**
+   * Send the posting to matching workers we can pay
+   * Context stays private until award - workers only see the task and inputs
+   * Returns how many workers received it
+   */
+  private async broadcastPosting(posting: JobPosting): Promise<number> {
+    const matchingWorkers = (
+      await db
+        .select()
+        .from(workers)
+        .where(
+          and(
+            eq(workers.status, 'active'),
+            eq(workers.acceptingJobs, true),
+            sql`lower(${workers.specialty}) = lower(${posting.specialty})`
+          )
+        )
+    ).filter((worker) => getPayoutBlockers(worker).length === 0);
+
+    const bidUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/postings/${posting.id}/bids`;
+
+    const results = await Promise.allSettled(
+      matchingWorkers.map(async (worker) => {
+        const response = await sendWorkerWebhook(worker, {
+          type: 'posting_opened',
+          postingId: posting.id,
+          workerId: worker.id, // Send back as X-Worker-Id when bidding
+          task: posting.task,
+          inputs: posting.inputs,
+          specialty: posting.specialty,
+          budgetCeiling: toDollars(fromDecimal(posting.budgetCeiling)),
+          biddingClosesAt: posting.biddingClosesAt,
+          bidUrl,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Posting webhook failed: ${response.statusText}`);
+        }
+      })
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to invite worker ${matchingWorkers[index].id} to posting ${posting.id}:`, result.reason);
+      }
+    });
+
+    return results.filter((result) => result.status === 'fulfilled').length;
+  }
+
+  /**
+   * Worker bids on an open posting
+   * IMPORTANT: One bid per worker - bidding again replaces the pending bid
+   */
+  async submitBid(postingId: string, worker: Worker, input: BidInput): Promise<Bid> {
+    return await db.transaction(async (tx) => {
+      // CRITICAL: Lock the posting so bids can't race an award or cancellation
+      const [posting] = await tx
+        .select()
+        .from(jobPostings)
+        .where(eq(jobPostings.id, postingId))
+        .for('update');
+
+      if (!posting) {
+        throw new PostingNotFoundError(postingId);
+      }
+
+      if (posting.status !== 'open') {
+        throw new PostingClosedError(postingId, `posting is ${posting.status}`);
+      }
+
+      if (posting.biddingClosesAt <= new Date()) {
+        throw new PostingClosedError(postingId, 'bidding has closed');
+      }
+
+      if (worker.status !== 'active' || !worker.acceptingJobs) {
+        throw new WorkerUnavailableError(worker.id, 'worker is not accepting jobs');
+      }
+
+      if (worker.specialty.toLowerCase() !== posting.specialty.toLowerCase()) {
+        throw new WorkerUnavailableError(worker.id, `posting needs a ${posting.specialty} worker`);
+      }
+
+      // An award would be refused - better to hear it now than after the buyer picks this bid
+      const blockers = getPayoutBlockers(worker);
+      if (blockers.length > 0) {
+        throw new WorkerPayoutsNotReadyError(worker.id, blockers);
+      }
+
+      const ceilingCents = fromDecimal(posting.budgetCeiling);
+      if (input.priceCents > ceilingCents) {
+        throw new BidAboveCeilingError(postingId, formatMoney(ceilingCents));
+      }
+
+      const values = {
+        priceCents: input.priceCents,
+        etaMinutes: input.etaMinutes,
+        revisionsIncluded: input.revisionsIncluded ?? 0,
+        message: input.message ? sanitizeText(input.message) : null,
+      };
+
+      const [existing] = await tx
+        .select()
+        .from(bids)
+        .where(and(eq(bids.postingId, postingId), eq(bids.workerId, worker.id)));
+
+      if (existing) {
+        const [updated] = await tx
+          .update(bids)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(bids.id, existing.id))
+          .returning();
+
+        return updated;
+      }
+
+      const [bid] = await tx
+        .insert(bids)
+        .values({ postingId, workerId: worker.id, ...values })
+        .returning();
+
+      return bid;
+    });
+  }
+
+  /**
+   * Buyer awards a bid at the price they saw - creates the job and locks escrow at that price
+   * A failed hire (funds, capacity, worker declines) reopens the posting
+   */
+  async awardBid(postingId: string, bidId: string, userId: string, expectedPriceCents: Cents): Promise<Job> {
+    const posting = await this.getOwnedPosting(postingId, userId);
+
+    // CRITICAL: Claim the posting under the lock bids take (see submitBid), so the
+    // bid can't be re-priced between this check and the award
+    const bid = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(jobPostings)
+        .where(eq(jobPostings.id, postingId))
+        .for('update');
+
+      if (locked.status !== 'open') {
+        throw new PostingClosedError(postingId, `posting is ${locked.status}`);
+      }
+
+      const [bid] = await tx
+        .select()
+        .from(bids)
+        .where(and(eq(bids.id, bidId), eq(bids.postingId, postingId), eq(bids.status, 'pending')));
+
+      if (!bid) {
+        throw new BidNotFoundError(bidId);
+      }
+
+      if (bid.priceCents !== expectedPriceCents) {
+        throw new BidChangedError(
+          bidId,
+          `price is now ${formatMoney(bid.priceCents)}, not ${formatMoney(expectedPriceCents)}`
+        );
+      }
+
+      await tx
+        .update(jobPostings)
+        .set({ status: 'awarded', awardedBidId: bid.id, awardedAt: new Date() })
+        .where(eq(jobPostings.id, postingId));
+
+      return bid;
+    });
+
+    let job: Job;
+
+    try {
+      job = await jobService.createJob({
+        userId,
+        type: 'worker',
+        workerId: bid.workerId,
+        bidTerms: this.getBidTerms(posting, bid),
+        task: posting.task,
+        inputs: (posting.inputs as Record<string, any> | null) ?? undefined,
+        context: (posting.context as Record<string, any> | null) ?? undefined,
+      });
+    } catch (error) {
+      await db
+        .update(jobPostings)
+        .set({ status: 'open', awardedBidId: null, awardedAt: null })
+        .where(and(eq(jobPostings.id, postingId), eq(jobPostings.status, 'awarded')));
+
+      // Worker turned the job down or can't be paid (since bidding) - its bid can't be awarded again
+      if (error instanceof JobDeclinedError || error instanceof WorkerPayoutsNotReadyError) {
+        await db.update(bids).set({ status: 'rejected', updatedAt: new Date() }).where(eq(bids.id, bid.id));
+      }
+
+      throw error;
+    }
+
+    await db.update(jobPostings).set({ jobId: job.id }).where(eq(jobPostings.id, postingId));
+    await db.update(bids).set({ status: 'accepted', updatedAt: new Date() }).where(eq(bids.id, bid.id));
+    await db
+      .update(bids)
+      .set({ status: 'rejected', updatedAt: new Date() })
+      .where(and(eq(bids.postingId, postingId), eq(bids.status, 'pending'), ne(bids.id, bid.id)));
+
+    return job;
+  }
+
+  /**
+   * Bid as the job's offer terms (price, ETA -> timeout, revisions)
+   */
+  private getBidTerms(posting: JobPosting, bid: Bid): WorkerOffer {
+    return {
+      id: `bid-${bid.id}`,
+      title: posting.task.slice(0, 100),
+      priceCents: bid.priceCents,
+      currency: 'USD',
+      etaMinutesMin: bid.etaMinutes,
+      etaMinutesMax: bid.etaMinutes,
+      revisionsIncluded: bid.revisionsIncluded,
+      scopeNotes: bid.message ?? '',
+      tags: [posting.specialty],
+    };
+  }
+
+  /**
+   * Buyer withdraws an open posting (nothing is locked, so nothing to refund)
+   */
+  async cancelPosting(postingId: string, userId: string): Promise<JobPosting> {
+    const posting = await this.getOwnedPosting(postingId, userId);
+
+    const [cancelled] = await db
+      .update(jobPostings)
+      .set({ status: 'cancelled' })
+      .where(and(eq(jobPostings.id, postingId), eq(jobPostings.status, 'open')))
+      .returning();
+
+    if (!cancelled) {
+      throw new PostingClosedError(postingId, `posting is ${posting.status}`);
+    }
+
+    await db
+      .update(bids)
+      .set({ status: 'rejected', updatedAt: new Date() })
+      .where(and(eq(bids.postingId, postingId), eq(bids.status, 'pending')));
+
+    return cancelled;
+  }
+
+  /**
+   * Posting with its bids (cheapest first) and who placed them
+   */
+  async getPostingWithBids(postingId: string, userId: string) {
+    const posting = await this.getOwnedPosting(postingId, userId);
+
+    const postingBids = await db
+      .select({
+        bid: bids,
+        worker: {
+          id: workers.id,
+          name: workers.name,
+          reputationScore: workers.reputationScore,
+          completionCount: workers.completionCount,
+        },
+      })
+      .from(bids)
+      .innerJoin(workers, eq(bids.workerId, workers.id))
+      .where(eq(bids.postingId, postingId))
+      .orderBy(bids.priceCents);
+
+    return {
+      posting,
+      bids: postingBids.map(({ bid, worker }) => ({ ...bid, worker })),
+    };
+  }
+
+  /**
+   * User's postings (newest first)
+   */
+  async getUserPostings(userId: string): Promise<JobPosting[]> {
+    return await db.query.jobPostings.findMany({
+      where: eq(jobPostings.userId, userId),
+      orderBy: [desc(jobPostings.createdAt)],
+    });
+  }
+
+  /**
+   * Posting owned by this buyer (other buyers' postings look like they don't exist)
+   */
+  private async getOwnedPosting(postingId: string, userId: string): Promise<JobPosting> {
+    const posting = await db.query.jobPostings.findFirst({
+      where: eq(jobPostings.id, postingId),
+    });
+
+    if (!posting || posting.userId !== userId) {
+      throw new PostingNotFoundError(postingId);
+    }
+
+    return posting;
+  }
+}
+
+export const postingService = new PostingService();
@@ -0,0 +1,229 @@
+import { db } from '@/lib/db';
+import { jobs, workers, type Worker } from '@/lib/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { formatMoney, fromDollars } from '@/lib/money';
+import { ACTIVE_JOB_STATUSES } from '@/lib/types/job';
+import type { WorkerOffer } from '@/lib/types/worker';
+import { getPayoutBlockers } from './payouts';
+
+/**
+ * Project fingerprint, as detected by the MCP server (all fields optional)
+ */
+export interface MatchProjectProfile {
+  language?: string[];
+  framework?: string | null;
+  dependencies?: string[];
+  fileTypes?: string[];
+}
+
+export interface MatchInput {
+  task: string;
+  budget: number;
+  projectProfile?: MatchProjectProfile;
+  limit?: number; // Default 5
+}
+
+export interface WorkerMatch {
+  worker: Pick<
+    Worker,
+    'id' | 'name' | 'workerType' | 'description' | 'specialty' | 'offers' | 'reputationScore' | 'completionCount'
+  >;
+  offer: WorkerOffer; // Best-fitting of the worker's offers to hire against
+  score: number; // 0-100
+  reasons: string[]; // Why this worker was matched, strongest first
+}
+
+// How much each signal counts towards the score (sums to 1)
+const WEIGHTS = {
+  specialty: 0.25,
+  tags: 0.2,
+  reputation: 0.2,
+  experience: 0.1,
+  load: 0.1,
+  price: 0.15,
+};
+
+// Too common to say anything about the task
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'our', 'your', 'all', 'add',
+  'make', 'need', 'needs', 'want', 'please', 'should', 'use', 'using', 'new', 'can', 'are',
+]);
+
+/**
+ * Worker matching
+ *
+ * Ranks hireable workers for a task. Only payable workers whose specialty or offer tags
+ * relate to the task (or project) are returned; reputation, experience, current
+ * load and price fit then decide the order.
+ */
+export class WorkerMatcher {
+  async matchWorkers(input: MatchInput): Promise<WorkerMatch[]> {
+    const keywords = this.getKeywords(input);
+
+    // Workers we can't pay would be refused at hire time - don't recommend them
+    const candidates = (
+      await db.query.workers.findMany({
+        where: and(eq(workers.status, 'active'), eq(workers.acceptingJobs, true)),
+      })
+    ).filter((worker) => getPayoutBlockers(worker).length === 0);
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const loads = await this.getActiveJobCounts(candidates.map((w) => w.id));
+
+    return candidates
+      .map((worker) => this.scoreWorker(worker, keywords, input.budget, loads.get(worker.id) ?? 0))
+      .filter((match): match is WorkerMatch => match !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, input.limit ?? 5);
+  }
+
+  /**
+   * Score one worker, or null if nothing about it relates to the task
+   */
+  private scoreWorker(
+    worker: Worker,
+    keywords: Set<string>,
+    budget: number,
+    activeJobs: number
+  ): WorkerMatch | null {
+    const offers = (worker.offers as WorkerOffer[] | null) || [];
+
+    // Workers without offers can't be hired
+    if (offers.length === 0) {
+      return null;
+    }
+
+    const reasons: string[] = [];
+
+    // Specialty: any of its words in the task/project
+    const specialtyWords = this.tokenize(worker.specialty);
+    const specialtyHits = specialtyWords.filter((word) => keywords.has(word));
+    const specialtyScore = specialtyWords.length > 0 ? specialtyHits.length / specialtyWords.length : 0;
+
+    // Offer: most matching tags, cheapest on ties
+    const budgetCents = fromDollars(budget);
+    const ranked = offers
+      .map((offer) => ({
+        offer,
+        matchedTags: offer.tags.filter((tag) => this.tokenize(tag).some((word) => keywords.has(word))),
+      }))
+      .sort(
+        (a, b) =>
+          b.matchedTags.length - a.matchedTags.length ||
+          Number(a.offer.priceCents > budgetCents) - Number(b.offer.priceCents > budgetCents) ||
+          a.offer.priceCents - b.offer.priceCents
+      );
+    const { offer, matchedTags } = ranked[0];
+    const tagScore = Math.min(1, matchedTags.length / 2);
+
+    if (specialtyScore === 0 && tagScore === 0) {
+      return null;
+    }
+
+    if (specialtyHits.length > 0) {
+      reasons.push(`Specialty "${worker.specialty}" matches the task`);
+    }
+    if (matchedTags.length > 0) {
+      reasons.push(`Offer "${offer.title}" covers ${matchedTags.join(', ')}`);
+    }
+
+    // Reputation: average rating out of 5 (unrated workers sit in the middle)
+    const rating = parseFloat(worker.reputationScore || '0');
+    const reputationScore = worker.ratingCount > 0 ? rating / 5 : 0.5;
+    if (worker.ratingCount > 0) {
+      reasons.push(`Rated ${rating.toFixed(1)}/5 over ${worker.ratingCount} rated jobs`);
+    } else {
+      reasons.push('No ratings yet');
+    }
+
+    // Experience: 100 completions = full marks
+    const experienceScore = Math.min(1, Math.log10(worker.completionCount + 1) / 2);
+    if (worker.completionCount > 0) {
+      reasons.push(`${worker.completionCount} jobs completed`);
+    }
+
+    // Load: share of free slots (full = job would queue)
+    const freeSlots = Math.max(0, worker.maxConcurrentJobs - activeJobs);
+    const loadScore = freeSlots / worker.maxConcurrentJobs;
+    reasons.push(
+      freeSlots > 0
+        ? `${freeSlots} of ${worker.maxConcurrentJobs} slots free`
+        : 'At capacity - the job would be queued'
+    );
+
+    // Price: within budget scores high (cheaper is better), over budget falls off fast
+    let priceScore: number;
+    if (offer.priceCents <= budgetCents) {
+      priceScore = budgetCents > 0 ? 0.7 + 0.3 * (1 - offer.priceCents / budgetCents) : 1;
+      reasons.push(`${formatMoney(offer.priceCents)} fits the ${formatMoney(budgetCents)} budget`);
+    } else {
+      priceScore = budgetCents > 0 ? Math.max(0, 1 - (offer.priceCents - budgetCents) / budgetCents) * 0.5 : 0;
+      reasons.push(`${formatMoney(offer.priceCents)} is ${formatMoney(offer.priceCents - budgetCents)} over budget`);
+    }
+
+    const score =
+      WEIGHTS.specialty * specialtyScore +
+      WEIGHTS.tags * tagScore +
+      WEIGHTS.reputation * reputationScore +
+      WEIGHTS.experience * experienceScore +
+      WEIGHTS.load * loadScore +
+      WEIGHTS.price * priceScore;
+
+    return {
+      worker: {
+        id: worker.id,
+        name: worker.name,
+        workerType: worker.workerType,
+        description: worker.description,
+        specialty: worker.specialty,
+        offers: worker.offers,
+        reputationScore: worker.reputationScore,
+        completionCount: worker.completionCount,
+      },
+      offer,
+      score: Math.round(score * 100),
+      reasons,
+    };
+  }
+
+  /**
+   * In-flight job count per worker
+   */
+  private async getActiveJobCounts(workerIds: string[]): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ workerId: jobs.workerId, count: sql<number>`count(*)` })
+      .from(jobs)
+      .where(and(inArray(jobs.workerId, workerIds), inArray(jobs.status, ACTIVE_JOB_STATUSES)))
+      .groupBy(jobs.workerId);
+
+    return new Map(rows.map((row) => [row.workerId!, Number(row.count)]));
+  }
+
+  /**
+   * Words from the task and project profile to match specialties and tags against
+   */
+  private getKeywords(input: MatchInput): Set<string> {
+    const profile = input.projectProfile;
+    const sources = [
+      input.task,
+      ...(profile?.language ?? []),
+      profile?.framework ?? '',
+      ...(profile?.dependencies ?? []),
+      ...(profile?.fileTypes ?? []),
+    ];
+
+    return new Set(sources.flatMap((source) => this.tokenize(source)));
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter((word) => word.length >= 2 && !STOP_WORDS.has(word));
+  }
+}
+
+export const workerMatcher = new WorkerMatcher();
@@ -0,0 +1,101 @@
+import Stripe from 'stripe';
+import type { Worker } from '@/lib/db/schema';
+
+/**
+ * Worker payout readiness
+ *
+ * A worker can only be approved or hired once Stripe will let us pay them:
+ * a connected account, onboarding submitted and payouts enabled (and no
+ * freeze from a reversed transfer or failed bank payout). The Connect flags
+ * are copied onto the worker from account.updated webhooks; blockers are
+ * phrased for the worker's dashboard.
+ */
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2023-10-16',
+});
+
+export interface ConnectStatus {
+  stripeDetailsSubmitted: boolean;
+  stripeChargesEnabled: boolean;
+  stripePayoutsEnabled: boolean;
+  stripeRequirementsDue: string[];
+  stripeDisabledReason: string | null;
+  stripeStatusUpdatedAt: Date;
+}
+
+// What payout readiness is decided from
+type PayoutFields = Pick<
+  Worker,
+  | 'stripeAccountId'
+  | 'stripeDetailsSubmitted'
+  | 'stripePayoutsEnabled'
+  | 'stripeRequirementsDue'
+  | 'stripeDisabledReason'
+  | 'frozenAt'
+  | 'frozenReason'
+>;
+
+/**
+ * The fields we keep from a Stripe account
+ */
+export function connectStatusFromAccount(account: Stripe.Account): ConnectStatus {
+  return {
+    stripeDetailsSubmitted: account.details_submitted ?? false,
+    stripeChargesEnabled: account.charges_enabled ?? false,
+    stripePayoutsEnabled: account.payouts_enabled ?? false,
+    stripeRequirementsDue: account.requirements?.currently_due ?? [],
+    stripeDisabledReason: account.requirements?.disabled_reason ?? null,
+    stripeStatusUpdatedAt: new Date(),
+  };
+}
+
+/**
+ * Current status straight from Stripe (registration, backfills)
+ * Also returns who the account was created for, so callers can check it's theirs
+ */
+export async function fetchConnectAccount(
+  accountId: string
+): Promise<{ status: ConnectStatus; clerkUserId: string | null }> {
+  const account = await stripe.accounts.retrieve(accountId);
+
+  return {
+    status: connectStatusFromAccount(account),
+    clerkUserId: account.metadata?.clerkUserId ?? null,
+  };
+}
+
+/**
+ * Why a worker can't be paid right now (empty when they can)
+ */
+export function getPayoutBlockers(worker: PayoutFields): string[] {
+  const blockers: string[] = [];
+
+  if (!worker.stripeAccountId) {
+    return ['No Stripe account connected - connect one to get paid'];
+  }
+
+  if (!worker.stripeDetailsSubmitted) {
+    blockers.push('Stripe onboarding is not finished');
+  }
+
+  if (!worker.stripePayoutsEnabled) {
+    const due = (worker.stripeRequirementsDue as string[] | null) ?? [];
+
+    blockers.push(
+      worker.stripeDisabledReason
+        ? `Stripe has not enabled payouts (${worker.stripeDisabledReason})`
+        : 'Stripe has not enabled payouts yet'
+    );
+
+    if (due.length > 0) {
+      blockers.push(`Stripe still needs: ${due.join(', ')}`);
+    }
+  }
+
+  if (worker.frozenAt) {
+    blockers.push(`Payouts are frozen: ${worker.frozenReason}`);
+  }
+
+  return blockers;
+}
@@ -1,6 +1,16 @@
-import { db } from '@/lib/db';
+import { db, type DbTransaction } from '@/lib/db';
 import { workers, jobs, type Worker, type NewWorker } from '@/lib/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
+import { ACTIVE_JOB_STATUSES } from '@/lib/types/job';
+import { WorkerPayoutsNotReadyError } from '@/features/jobs/errors';
+import { fetchConnectAccount, getPayoutBlockers, type ConnectStatus } from './payouts';
+
+// Worker has fewer in-flight jobs than maxConcurrentJobs
+const hasFreeSlot = sql`(
+  SELECT count(*) FROM ${jobs}
+  WHERE ${jobs.workerId} = ${workers.id}
+    AND ${jobs.status} IN (${sql.join(ACTIVE_JOB_STATUSES.map((s) => sql`${s}`), sql`, `)})
+) < ${workers.maxConcurrentJobs}`;
 
 export class WorkerService {
   /**
@@ -36,21 +46,26 @@ export class WorkerService {
   }
 
   /**
-   * List all active workers
+   * List all active workers that can take a job right now
    */
   async listActiveWorkers(): Promise<Worker[]> {
     return await db.query.workers.findMany({
-      where: eq(workers.status, 'active'),
+      where: and(eq(workers.status, 'active'), eq(workers.acceptingJobs, true), hasFreeSlot),
       orderBy: (workers, { desc }) => [desc(workers.reputationScore)],
     });
   }
 
   /**
-   * List workers by specialty
+   * List workers by specialty that can take a job right now
    */
   async listWorkersBySpecialty(specialty: string): Promise<Worker[]> {
     return await db.query.workers.findMany({
-      where: and(eq(workers.specialty, specialty), eq(workers.status, 'active')),
+      where: and(
+        eq(workers.specialty, specialty),
+        eq(workers.status, 'active'),
+        eq(workers.acceptingJobs, true),
+        hasFreeSlot
+      ),
       orderBy: (workers, { desc }) => [desc(workers.reputationScore)],
     });
   }
@@ -75,10 +90,74 @@ export class WorkerService {
     return worker;
   }
 
+  /**
+   * The workers a user has registered, newest first
+   */
+  async listUserWorkers(userId: string): Promise<Worker[]> {
+    return await db.query.workers.findMany({
+      where: eq(workers.userId, userId),
+      orderBy: (workers, { desc }) => [desc(workers.createdAt)],
+    });
+  }
+
+  /**
+   * Store a connected account's status (account.updated webhook)
+   * Returns null if no worker uses the account yet - registration fetches it then
+   */
+  async updateConnectStatus(
+    stripeAccountId: string,
+    status: ConnectStatus,
+    tx?: DbTransaction
+  ): Promise<Worker | null> {
+    const [worker] = await (tx ?? db)
+      .update(workers)
+      .set({ ...status, updatedAt: new Date() })
+      .where(eq(workers.stripeAccountId, stripeAccountId))
+      .returning();
+
+    return worker ?? null;
+  }
+
+  /**
+   * Re-read every connected worker's status from Stripe (backfill after upgrading,
+   * or after missed webhooks). Returns how many were updated.
+   */
+  async refreshConnectStatuses(): Promise<number> {
+    const connected = await db.query.workers.findMany({
+      where: sql`${workers.stripeAccountId} IS NOT NULL`,
+    });
+
+    let updated = 0;
+
+    for (const worker of connected) {
+      try {
+        const { status } = await fetchConnectAccount(worker.stripeAccountId!);
+        await this.updateConnectStatus(worker.stripeAccountId!, status);
+        updated++;
+      } catch (error) {
+        console.error(`Stripe status refresh failed for worker ${worker.id}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
   /**
    * Approve worker (admin only)
+   * CRITICAL: Refuses workers Stripe can't pay - their first approved job would fail to pay out
    */
   async approveWorker(workerId: string): Promise<Worker> {
+    const existing = await this.getWorker(workerId);
+
+    if (!existing) {
+      throw new Error('Worker not found');
+    }
+
+    const blockers = getPayoutBlockers(existing);
+    if (blockers.length > 0) {
+      throw new WorkerPayoutsNotReadyError(workerId, blockers);
+    }
+
     const [worker] = await db
       .update(workers)
       .set({
@@ -117,8 +196,9 @@ export class WorkerService {
 
   /**
    * Update worker reputation after job completion
+   * A null rating (e.g. auto-approval) counts the completion without moving the score
    */
-  async updateReputation(workerId: string, rating: number): Promise<void> {
+  async updateReputation(workerId: string, rating: number | null): Promise<void> {
     await db.transaction(async (tx) => {
       const worker = await tx.query.workers.findFirst({
         where: eq(workers.id, workerId),
@@ -129,16 +209,20 @@ export class WorkerService {
       }
 
       const currentScore = parseFloat(worker.reputationScore || '0');
-      const currentCount = worker.completionCount;
+      const currentCount = worker.ratingCount;
 
-      // Calculate new weighted average
-      const newScore = (currentScore * currentCount + rating) / (currentCount + 1);
+      // Calculate new weighted average (rated completions only)
+      const newScore =
+        rating === null
+          ? currentScore
+          : (currentScore * currentCount + rating) / (currentCount + 1);
 
       await tx
         .update(workers)
         .set({
           reputationScore: newScore.toFixed(2),
-          completionCount: currentCount + 1,
+          completionCount: worker.completionCount + 1,
+          ratingCount: rating === null ? currentCount : currentCount + 1,
           updatedAt: new Date(),
         })
         .where(eq(workers.id, workerId));
@@ -165,8 +249,9 @@ export class WorkerService {
     const totalJobs = jobStats.length;
     const approvedJobs = jobStats.filter((j) => j.status === 'approved').length;
     const rejectedJobs = jobStats.filter((j) => j.status === 'rejected').length;
+    const ratedJobs = jobStats.filter((j) => j.rating !== null);
     const averageRating =
-      jobStats.reduce((sum, j) => sum + (j.rating || 0), 0) / (totalJobs || 1);
+      ratedJobs.reduce((sum, j) => sum + (j.rating || 0), 0) / (ratedJobs.length || 1);
 
     return {
       worker,
@@ -10,3 +10,6 @@ if (!connectionString) {
 
 const client = postgres(connectionString);
 export const db = drizzle(client, { schema });
+
+// Transaction handle passed to services that can join a caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
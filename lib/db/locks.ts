@@ -0,0 +1,35 @@
+import { sql } from 'drizzle-orm';
+import { db } from './index';
+
+/**
+ * Postgres advisory lock keys (one per singleton background task)
+ */
+export const ADVISORY_LOCKS = {
+  JOB_TIMEOUTS: 720_001,
+  REVIEW_WINDOWS: 720_002,
+  DISPUTE_WINDOWS: 720_003,
+  PIPELINES: 720_004,
+} as const;
+
+/**
+ * Run fn only if no other process holds the lock
+ *
+ * Uses a transaction-level lock, so it's released automatically when
+ * fn finishes (or the connection dies) - no stuck locks after a crash.
+ */
+export async function withAdvisoryLock<T>(
+  key: number,
+  fn: () => Promise<T>
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+  return await db.transaction(async (tx) => {
+    const [row] = await tx.execute<{ locked: boolean }>(
+      sql`SELECT pg_try_advisory_xact_lock(${key}) AS locked`
+    );
+
+    if (!row?.locked) {
+      return { acquired: false as const };
+    }
+
+    return { acquired: true as const, result: await fn() };
+  });
+}
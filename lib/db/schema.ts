@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, decimal, timestamp, integer, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, decimal, timestamp, integer, jsonb, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
 import { createId } from '@paralleldrive/cuid2';
 
 // Re-export audit logs table
@@ -10,6 +10,8 @@ export const users = pgTable('users', {
   clerkId: varchar('clerk_id', { length: 255 }).unique().notNull(),
   email: varchar('email', { length: 255 }).notNull(),
   walletBalance: decimal('wallet_balance', { precision: 10, scale: 2 }).default('0.00').notNull(),
+  frozenAt: timestamp('frozen_at'), // Set by a refunded or disputed top-up - wallet can't fund jobs
+  frozenReason: text('frozen_reason'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -62,13 +64,23 @@ export const workers = pgTable('workers', {
   pricing: decimal('pricing', { precision: 10, scale: 2 }).notNull(), // Legacy - use offers instead
   offers: jsonb('offers'), // Array of structured offers (name, price, ETA, revisions, scope)
   stripeAccountId: varchar('stripe_account_id', { length: 255 }),
+  // Stripe Connect status, kept current from account.updated (see features/workers/payouts.ts)
+  stripeDetailsSubmitted: boolean('stripe_details_submitted').default(false).notNull(),
+  stripeChargesEnabled: boolean('stripe_charges_enabled').default(false).notNull(),
+  stripePayoutsEnabled: boolean('stripe_payouts_enabled').default(false).notNull(),
+  stripeRequirementsDue: jsonb('stripe_requirements_due'), // Stripe's currently_due fields, e.g. ["external_account"]
+  stripeDisabledReason: varchar('stripe_disabled_reason', { length: 100 }),
+  stripeStatusUpdatedAt: timestamp('stripe_status_updated_at'),
   apiEndpoint: varchar('api_endpoint', { length: 500 }).notNull(),
   webhookSecret: varchar('webhook_secret', { length: 255 }),
   reputationScore: decimal('reputation_score', { precision: 3, scale: 2 }).default('0.00'),
   completionCount: integer('completion_count').default(0).notNull(),
+  ratingCount: integer('rating_count').default(0).notNull(), // Rated completions (backfilled by scripts/migrate-rating-count.ts)
   acceptingJobs: boolean('accepting_jobs').default(false).notNull(), // Toggle for going live
   maxConcurrentJobs: integer('max_concurrent_jobs').default(5).notNull(),
   status: varchar('status', { length: 20 }).default('pending').notNull(), // pending, active, suspended
+  frozenAt: timestamp('frozen_at'), // Set by a reversed transfer or failed bank payout - payouts are held
+  frozenReason: text('frozen_reason'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -80,23 +92,189 @@ export const jobs = pgTable('jobs', {
   type: varchar('type', { length: 20 }).notNull(), // 'skill' or 'worker'
   skillId: varchar('skill_id', { length: 100 }).references(() => skills.id),
   workerId: uuid('worker_id').references(() => workers.id),
+  offerId: varchar('offer_id', { length: 100 }), // WorkerOffer.id the buyer hired against
+  offerSnapshot: jsonb('offer_snapshot'), // WorkerOffer as it was at hire time
+  pipelineId: uuid('pipeline_id').references(() => pipelines.id), // Set for pipeline steps (escrow comes from the pipeline reserve)
   task: text('task').notNull(),
   inputs: jsonb('inputs'),
   context: jsonb('context'), // Files and metadata sent to worker
-  status: varchar('status', { length: 20 }).notNull(), // posted, in_progress, delivered, approved, rejected, cancelled
+  status: varchar('status', { length: 20 }).notNull(), // queued, posted, in_progress, delivered, approved, rejected, cancelled, declined, disputed, resolved
   deliverableText: text('deliverable_text'),
   deliverableUrl: varchar('deliverable_url', { length: 500 }),
-  deliverableFiles: jsonb('deliverable_files'),
+  deliverableFiles: jsonb('deliverable_files'), // Legacy - new deliveries are stored as jobArtifacts
   budget: decimal('budget', { precision: 10, scale: 2 }).notNull(),
   rating: integer('rating'),
   feedback: text('feedback'),
+  revisionsIncluded: integer('revisions_included').default(0).notNull(), // From the worker's offer
+  revisionsUsed: integer('revisions_used').default(0).notNull(),
+  reviewWindowHours: integer('review_window_hours').default(72).notNull(), // Buyer review time before auto-approval
+  reviewDeadlineAt: timestamp('review_deadline_at'), // Set on delivery
+  reviewReminderSentAt: timestamp('review_reminder_sent_at'),
   timeoutAt: timestamp('timeout_at'), // Auto-cancel if not delivered by this time
   createdAt: timestamp('created_at').defaultNow().notNull(),
+  queuedAt: timestamp('queued_at'), // Set while waiting for a free worker slot (FIFO order)
   acceptedAt: timestamp('accepted_at'),
   deliveredAt: timestamp('delivered_at'),
   completedAt: timestamp('completed_at'),
 });
 
+// Pipelines table (ordered skill/worker steps sharing one budget)
+export const pipelines = pgTable('pipelines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  name: varchar('name', { length: 200 }),
+  context: jsonb('context'), // Context for the first step
+  status: varchar('status', { length: 20 }).default('running').notNull(), // running, completed, failed
+  budget: decimal('budget', { precision: 10, scale: 2 }).notNull(), // Reserved from the wallet up front
+  allocatedAmount: decimal('allocated_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Moved into step job escrows
+  refundedAmount: decimal('refunded_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Unallocated reserve returned to the wallet
+  failureReason: text('failure_reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+});
+
+// Pipeline steps table
+export const pipelineSteps = pgTable('pipeline_steps', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  pipelineId: uuid('pipeline_id').references(() => pipelines.id).notNull(),
+  position: integer('position').notNull(), // 1-based run order
+  type: varchar('type', { length: 20 }).notNull(), // 'skill' or 'worker'
+  skillId: varchar('skill_id', { length: 100 }).references(() => skills.id),
+  workerId: uuid('worker_id').references(() => workers.id),
+  offerId: varchar('offer_id', { length: 100 }),
+  task: text('task').notNull(),
+  inputs: jsonb('inputs'),
+  budget: decimal('budget', { precision: 10, scale: 2 }).notNull(), // Skill budget or offer price at creation
+  status: varchar('status', { length: 20 }).default('pending').notNull(), // pending, running, completed, failed, skipped
+  jobId: uuid('job_id').references(() => jobs.id), // Set when the step starts
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+});
+
+// Job postings table (open tasks workers bid on - no escrow until a bid is awarded)
+export const jobPostings = pgTable('job_postings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  task: text('task').notNull(),
+  inputs: jsonb('inputs'),
+  context: jsonb('context'), // Only sent to the awarded worker
+  specialty: varchar('specialty', { length: 100 }).notNull(), // Workers with this specialty are invited
+  budgetCeiling: decimal('budget_ceiling', { precision: 10, scale: 2 }).notNull(), // Bids above this are refused
+  status: varchar('status', { length: 20 }).default('open').notNull(), // open, awarded, cancelled
+  biddingClosesAt: timestamp('bidding_closes_at').notNull(),
+  awardedBidId: uuid('awarded_bid_id'),
+  jobId: uuid('job_id').references(() => jobs.id), // Set when a bid is awarded
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  awardedAt: timestamp('awarded_at'),
+});
+
+// Bids table (one per worker per posting - resubmitting replaces the pending bid)
+export const bids = pgTable('bids', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postingId: uuid('posting_id').references(() => jobPostings.id).notNull(),
+  workerId: uuid('worker_id').references(() => workers.id).notNull(),
+  priceCents: integer('price_cents').notNull(),
+  etaMinutes: integer('eta_minutes').notNull(),
+  revisionsIncluded: integer('revisions_included').default(0).notNull(),
+  message: text('message'),
+  status: varchar('status', { length: 20 }).default('pending').notNull(), // pending, accepted, rejected
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Job events table (status transition history)
+export const jobEvents = pgTable('job_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => jobs.id).notNull(),
+  fromStatus: varchar('from_status', { length: 20 }), // null when the job is created
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  actorType: varchar('actor_type', { length: 20 }).notNull(), // buyer, worker, system, admin
+  actorId: varchar('actor_id', { length: 255 }), // users.id, workers.id or Clerk ID (admin)
+  reason: text('reason'),
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Job progress table (worker updates between acceptance and delivery)
+export const jobProgress = pgTable('job_progress', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => jobs.id).notNull(),
+  workerId: uuid('worker_id').references(() => workers.id).notNull(),
+  percent: integer('percent').notNull(), // 0-100
+  message: text('message').notNull(),
+  artifactText: text('artifact_text'), // Optional partial deliverable
+  artifactUrl: varchar('artifact_url', { length: 500 }),
+  artifactFiles: jsonb('artifact_files'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Job milestones table (ordered parts of a worker job, each delivered, approved and paid separately)
+export const jobMilestones = pgTable('job_milestones', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => jobs.id).notNull(),
+  position: integer('position').notNull(), // 1-based delivery order
+  title: varchar('title', { length: 200 }).notNull(),
+  description: text('description'),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(), // Share of the job budget released on approval
+  status: varchar('status', { length: 20 }).default('pending').notNull(), // pending, delivered, approved
+  deliverableText: text('deliverable_text'),
+  deliverableUrl: varchar('deliverable_url', { length: 500 }),
+  deliverableFiles: jsonb('deliverable_files'), // Legacy - new deliveries are stored as jobArtifacts
+  deliveredAt: timestamp('delivered_at'),
+  reviewDeadlineAt: timestamp('review_deadline_at'), // Non-final milestones: auto-approved after this
+  approvedAt: timestamp('approved_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Job artifacts table (delivered files, stored in blob storage - see lib/storage)
+export const jobArtifacts = pgTable('job_artifacts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => jobs.id).notNull(),
+  milestoneId: uuid('milestone_id').references(() => jobMilestones.id), // Set for milestone deliveries
+  name: varchar('name', { length: 255 }).notNull(), // Relative path as delivered, unique per job (redelivery replaces)
+  kind: varchar('kind', { length: 20 }).default('file').notNull(), // file, patch (unified diff - see features/jobs/patch.ts)
+  storageKey: varchar('storage_key', { length: 500 }).notNull(),
+  sha256: varchar('sha256', { length: 64 }).notNull(), // Checked again on download
+  sizeBytes: integer('size_bytes').notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // Concurrent redeliveries of a path can't both keep a row
+  jobNameIdx: uniqueIndex('job_artifacts_job_id_name_idx').on(table.jobId, table.name),
+}));
+
+// Job messages table (clarification thread between the buyer and the assigned worker)
+export const jobMessages = pgTable('job_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => jobs.id).notNull(),
+  senderType: varchar('sender_type', { length: 20 }).notNull(), // buyer, worker
+  senderId: uuid('sender_id').notNull(), // users.id or workers.id
+  body: text('body').notNull(), // Sanitized
+  forwardedAt: timestamp('forwarded_at'), // Buyer messages: when the worker's endpoint accepted it
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Disputes table (buyer rejected a worker's delivery - arbitrated by an admin)
+export const disputes = pgTable('disputes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').references(() => jobs.id).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(), // Buyer who rejected
+  workerId: uuid('worker_id').references(() => workers.id).notNull(),
+  status: varchar('status', { length: 20 }).default('awaiting_worker').notNull(), // awaiting_worker, awaiting_admin, resolved
+  buyerReason: text('buyer_reason').notNull(),
+  workerResponse: text('worker_response'),
+  workerEvidence: jsonb('worker_evidence'), // { urls?, files? }
+  responseDeadlineAt: timestamp('response_deadline_at').notNull(), // Buyer is refunded if the worker hasn't responded by then
+  respondedAt: timestamp('responded_at'),
+  workerSharePercent: integer('worker_share_percent'), // Set on resolution (0 = full refund)
+  refundAmount: decimal('refund_amount', { precision: 10, scale: 2 }),
+  workerPayout: decimal('worker_payout', { precision: 10, scale: 2 }),
+  resolutionNotes: text('resolution_notes'),
+  resolvedBy: varchar('resolved_by', { length: 255 }), // Admin Clerk ID, or 'system' when the window expired
+  resolvedAt: timestamp('resolved_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Escrow table
 export const escrow = pgTable('escrow', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -104,13 +282,14 @@ export const escrow = pgTable('escrow', {
   amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
   platformFee: decimal('platform_fee', { precision: 10, scale: 2 }).notNull(),
   workerPayout: decimal('worker_payout', { precision: 10, scale: 2 }).notNull(),
-  status: varchar('status', { length: 20 }).notNull(), // locked, released, refunded
+  releasedAmount: decimal('released_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Paid out by milestone approvals (stays locked until the rest settles)
+  status: varchar('status', { length: 20 }).notNull(), // locked, released, refunded, split
   stripeTransferId: varchar('stripe_transfer_id', { length: 255 }),
   lockedAt: timestamp('locked_at').defaultNow().notNull(),
   releasedAt: timestamp('released_at'),
 });
 
-// Transactions table (audit log)
+// Transactions table (legacy audit log - money movements are recorded in the ledger since it was introduced)
 export const transactions = pgTable('transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id).notNull(),
@@ -122,6 +301,38 @@ export const transactions = pgTable('transactions', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Ledger entries table (one balanced money movement - see features/payments/ledger.ts)
+export const ledgerEntries = pgTable('ledger_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  kind: varchar('kind', { length: 40 }).notNull(), // deposit, deposit_refund, chargeback, chargeback_reversal, escrow_lock, escrow_release, escrow_refund, escrow_split, worker_payout, transfer_reversal, pipeline_reserve, pipeline_allocation, pipeline_release, opening_balance
+  reference: varchar('reference', { length: 255 }), // Job, pipeline or Stripe ID
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Ledger lines table (debits positive, credits negative - each entry's lines sum to zero)
+export const ledgerLines = pgTable('ledger_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  entryId: uuid('entry_id').references(() => ledgerEntries.id).notNull(),
+  account: varchar('account', { length: 30 }).notNull(), // user_wallet, user_receivable, escrow, pipeline_reserve, worker_payable, platform_revenue, stripe_clearing
+  ownerId: uuid('owner_id'), // users.id, jobs.id, pipelines.id or workers.id (null for platform accounts)
+  amountCents: integer('amount_cents').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Stripe events table (every webhook delivery, keyed by Stripe's event ID - processed exactly once)
+export const stripeEvents = pgTable('stripe_events', {
+  id: varchar('id', { length: 255 }).primaryKey(), // Stripe event ID (evt_...)
+  type: varchar('type', { length: 100 }).notNull(),
+  payload: jsonb('payload').notNull(), // The verified event, for replays
+  status: varchar('status', { length: 20 }).default('received').notNull(), // received, processed, failed
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  receivedAt: timestamp('received_at').defaultNow().notNull(),
+  processedAt: timestamp('processed_at'),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -141,8 +352,47 @@ export type NewWorker = typeof workers.$inferInsert;
 export type Job = typeof jobs.$inferSelect;
 export type NewJob = typeof jobs.$inferInsert;
 
+export type JobEvent = typeof jobEvents.$inferSelect;
+export type NewJobEvent = typeof jobEvents.$inferInsert;
+
+export type JobProgress = typeof jobProgress.$inferSelect;
+export type NewJobProgress = typeof jobProgress.$inferInsert;
+
+export type JobMilestone = typeof jobMilestones.$inferSelect;
+export type NewJobMilestone = typeof jobMilestones.$inferInsert;
+
+export type Pipeline = typeof pipelines.$inferSelect;
+export type NewPipeline = typeof pipelines.$inferInsert;
+
+export type PipelineStep = typeof pipelineSteps.$inferSelect;
+export type NewPipelineStep = typeof pipelineSteps.$inferInsert;
+
+export type JobPosting = typeof jobPostings.$inferSelect;
+export type NewJobPosting = typeof jobPostings.$inferInsert;
+
+export type Bid = typeof bids.$inferSelect;
+export type NewBid = typeof bids.$inferInsert;
+
+export type JobArtifact = typeof jobArtifacts.$inferSelect;
+export type NewJobArtifact = typeof jobArtifacts.$inferInsert;
+
+export type JobMessage = typeof jobMessages.$inferSelect;
+export type NewJobMessage = typeof jobMessages.$inferInsert;
+
+export type Dispute = typeof disputes.$inferSelect;
+export type NewDispute = typeof disputes.$inferInsert;
+
 export type Escrow = typeof escrow.$inferSelect;
 export type NewEscrow = typeof escrow.$inferInsert;
 
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type NewLedgerEntry = typeof ledgerEntries.$inferInsert;
+
+export type LedgerLine = typeof ledgerLines.$inferSelect;
+export type NewLedgerLine = typeof ledgerLines.$inferInsert;
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type NewStripeEvent = typeof stripeEvents.$inferInsert;
+
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { jobs, workers, type Job, type Worker } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { verifyWebhookWithTimestamp, workerRequestPayload } from '@/lib/security/webhook-crypto';
+
+export type WorkerRequestResult =
+  | { ok: true; job: Job; worker: Worker | null; body: unknown }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Authenticate a worker callback for a job (deliver, accept, decline, ...)
+ *
+ * - Worker has a webhookSecret: X-Webhook-Signature + X-Webhook-Timestamp are REQUIRED,
+ *   signed over the method, path, job ID and body (see workerRequestPayload)
+ * - No secret: only allowed outside production
+ * - Job without a worker (skill jobs): only allowed when allowWithoutWorker is set
+ *
+ * Returns the job, its worker and the parsed JSON body, or an error response
+ */
+export async function verifyWorkerRequest(
+  req: NextRequest,
+  jobId: string,
+  options: { allowWithoutWorker?: boolean } = {}
+): Promise<WorkerRequestResult> {
+  const job = await db.query.jobs.findFirst({
+    where: eq(jobs.id, jobId),
+  });
+
+  if (!job) {
+    return fail('Job not found', 404);
+  }
+
+  if (!job.workerId) {
+    if (!options.allowWithoutWorker) {
+      return fail('Job has no worker', 400);
+    }
+
+    // No signature possible - rate limit by IP as fallback
+    const limitCheck = rateLimit(req, true);
+    if (limitCheck) return { ok: false, response: limitCheck };
+
+    return { ok: true, job, worker: null, body: parseBody(await req.text()) };
+  }
+
+  const worker = await db.query.workers.findFirst({
+    where: eq(workers.id, job.workerId),
+  });
+
+  if (!worker) {
+    return fail('Worker not found', 404);
+  }
+
+  const result = await verifyWorkerSignature(req, worker, { jobId });
+  return result.ok ? { ok: true, job, worker, body: result.body } : result;
+}
+
+/**
+ * Authenticate a worker call that isn't tied to a job (e.g. bidding on a posting)
+ *
+ * The worker identifies itself with X-Worker-Id; the same signature rules apply
+ */
+export async function verifyWorkerIdentity(
+  req: NextRequest
+): Promise<{ ok: true; worker: Worker; body: unknown } | { ok: false; response: NextResponse }> {
+  const workerId = req.headers.get('X-Worker-Id');
+
+  if (!workerId) {
+    return fail('X-Worker-Id header required', 401);
+  }
+
+  const worker = await db.query.workers.findFirst({
+    where: eq(workers.id, workerId),
+  });
+
+  if (!worker) {
+    return fail('Worker not found', 404);
+  }
+
+  const result = await verifyWorkerSignature(req, worker, {});
+  return result.ok ? { ok: true, worker, body: result.body } : result;
+}
+
+/**
+ * Rate limit, then check the worker's signature and parse the body
+ */
+async function verifyWorkerSignature(
+  req: NextRequest,
+  worker: Worker,
+  context: { jobId?: string }
+): Promise<{ ok: true; body: unknown } | { ok: false; response: NextResponse }> {
+  // Rate limit by workerId (not IP - prevents abuse)
+  const limitCheck = rateLimit(req, true, `worker:${worker.id}`);
+  if (limitCheck) return { ok: false, response: limitCheck };
+
+  // PRODUCTION ENFORCEMENT: webhookSecret is REQUIRED in production
+  if (!worker.webhookSecret) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('Worker missing webhookSecret in production', {
+        workerId: worker.id,
+        ...context,
+      });
+      return fail('Worker webhook signature required in production', 401);
+    }
+
+    return { ok: true, body: parseBody(await req.text()) };
+  }
+
+  // If worker has webhook secret, signature is REQUIRED
+  const signature = req.headers.get('X-Webhook-Signature');
+  const timestamp = req.headers.get('X-Webhook-Timestamp');
+
+  if (!signature || !timestamp) {
+    console.error('Missing webhook signature or timestamp', {
+      ...context,
+      workerId: worker.id,
+      hasSignature: !!signature,
+      hasTimestamp: !!timestamp,
+    });
+    return fail('Webhook signature required but not provided', 401);
+  }
+
+  // Read raw body for signature verification
+  const bodyText = await req.text();
+
+  // SECURITY: Signature covers the endpoint and job too - a signed GET for one job
+  // can't be replayed against another job or endpoint within the 5 minute window
+  const signedContent = workerRequestPayload({
+    method: req.method,
+    path: req.nextUrl.pathname,
+    jobId: context.jobId ?? '',
+    body: bodyText,
+  });
+
+  // Verify signature with timestamp
+  const verification = verifyWebhookWithTimestamp(
+    signedContent,
+    signature,
+    timestamp,
+    worker.webhookSecret,
+    300 // 5 minutes max age
+  );
+
+  if (!verification.valid) {
+    console.error('Webhook signature verification failed', {
+      ...context,
+      workerId: worker.id,
+      error: verification.error,
+    });
+    return fail(`Webhook verification failed: ${verification.error}`, 401);
+  }
+
+  // Parse body after verification
+  return { ok: true, body: parseBody(bodyText) };
+}
+
+/**
+ * JSON body, or {} for bodyless requests (signed GETs sign an empty body)
+ */
+function parseBody(bodyText: string): unknown {
+  return bodyText ? JSON.parse(bodyText) : {};
+}
+
+function fail(error: string, status: number): { ok: false; response: NextResponse } {
+  return { ok: false, response: NextResponse.json({ error }, { status }) };
+}
@@ -0,0 +1,115 @@
+/**
+ * Money
+ *
+ * Amounts are integer cents (USD minor units) everywhere money is computed.
+ * Dollars only appear at the edges: API input/output as numbers and the
+ * decimal(10,2) columns as strings - convert with the helpers below, never
+ * with ad-hoc `* 100` / `/ 100` / parseFloat.
+ *
+ * Rounding: percentages of an amount round half up to the cent, and a fee
+ * split gives the remainder to the payout, so fee + payout === amount always.
+ */
+
+export type Cents = number;
+
+export const PLATFORM_FEE_PERCENT = Number(process.env.PLATFORM_FEE_PERCENT) || 10;
+
+const DECIMAL = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+/**
+ * Throw unless the value is a whole, safe number of cents
+ */
+export function assertCents(value: number, label = 'amount'): Cents {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`Invalid ${label}: ${value} is not a whole number of cents`);
+  }
+  return value;
+}
+
+/**
+ * True when a dollar amount has no fraction of a cent (zod refine for API input)
+ */
+export function isWholeCents(dollars: number): boolean {
+  return Number.isFinite(dollars) && Math.abs(dollars * 100 - Math.round(dollars * 100)) < 1e-6;
+}
+
+/**
+ * Dollars from API input (12.5 -> 1250)
+ */
+export function fromDollars(dollars: number): Cents {
+  if (!isWholeCents(dollars)) {
+    throw new Error(`Invalid amount: $${dollars} has a fraction of a cent`);
+  }
+  return Math.round(dollars * 100);
+}
+
+/**
+ * A decimal column value ("12.50" -> 1250), parsed exactly - no float round trip
+ */
+export function fromDecimal(value: string): Cents {
+  const match = DECIMAL.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const cents = assertCents(Number(whole) * 100 + Number(fraction.padEnd(2, '0')));
+
+  return sign && cents !== 0 ? -cents : cents;
+}
+
+/**
+ * For decimal columns and SQL arithmetic (1250 -> "12.50")
+ */
+export function toDecimal(cents: Cents): string {
+  assertCents(cents);
+
+  const abs = Math.abs(cents);
+  const fraction = String(abs % 100).padStart(2, '0');
+
+  return `${cents < 0 ? '-' : ''}${Math.floor(abs / 100)}.${fraction}`;
+}
+
+/**
+ * For API responses and webhook payloads, which report dollars (1250 -> 12.5)
+ */
+export function toDollars(cents: Cents): number {
+  return assertCents(cents) / 100;
+}
+
+/**
+ * For messages shown to people (1250 -> "$12.50")
+ */
+export function formatMoney(cents: Cents): string {
+  return cents < 0 ? `-$${toDecimal(-cents)}` : `$${toDecimal(cents)}`;
+}
+
+/**
+ * A percentage of an amount, rounded half up to the cent
+ * Percent is honored to two decimal places (2.5% is fine, 2.555% is 2.56%)
+ */
+export function percentOf(amount: Cents, percent: number): Cents {
+  assertCents(amount);
+
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new Error(`Invalid percentage: ${percent}`);
+  }
+
+  // Basis points keep the arithmetic in integers
+  const basisPoints = Math.round(percent * 100);
+  const sign = amount < 0 ? -1 : 1;
+
+  return sign * Math.floor((Math.abs(amount) * basisPoints + 5000) / 10000);
+}
+
+/**
+ * Split an amount into the platform fee and what the worker receives
+ * IMPORTANT: fee + payout === amount - the payout takes the rounding remainder
+ */
+export function splitFee(
+  amount: Cents,
+  feePercent: number = PLATFORM_FEE_PERCENT
+): { fee: Cents; payout: Cents } {
+  const fee = percentOf(amount, feePercent);
+  return { fee, payout: amount - fee };
+}
@@ -0,0 +1,18 @@
+/**
+ * Check a Clerk user is a platform admin (arbitrates disputes)
+ * Admins are listed in ADMIN_USER_IDS (comma-separated Clerk user IDs)
+ *
+ * SECURITY: Fails closed - if no admins are configured, nobody is an admin
+ */
+export function isAdmin(clerkId: string | null | undefined): boolean {
+  if (!clerkId) {
+    return false;
+  }
+
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(clerkId);
+}
@@ -28,6 +28,23 @@ export enum SecurityEventType {
   JOB_REJECTED = 'job_rejected',
   ESCROW_RELEASED = 'escrow_released',
   WALLET_CREDITED = 'wallet_credited',
+
+  // Stripe events
+  STRIPE_EVENT_FAILED = 'stripe_event_failed',
+  CHARGE_REFUNDED = 'charge_refunded',
+  CHARGEBACK_OPENED = 'chargeback_opened',
+  CHARGEBACK_CLOSED = 'chargeback_closed',
+  TRANSFER_REVERSED = 'transfer_reversed',
+  PAYOUT_FAILED = 'payout_failed',
+
+  // Disputes
+  DISPUTE_OPENED = 'dispute_opened',
+  DISPUTE_RESPONDED = 'dispute_responded',
+  DISPUTE_RESOLVED = 'dispute_resolved',
+  DISPUTE_EXPIRED = 'dispute_expired',
+
+  // Ledger
+  LEDGER_MISMATCH = 'ledger_mismatch',
 }
 
 /**
@@ -39,6 +56,20 @@ export enum Severity {
   INFO = 'info',         // Normal operation
 }
 
+export interface AuditEvent {
+  eventType: SecurityEventType;
+  severity: Severity;
+  message: string;
+  details?: Record<string, any>;
+  userId?: string;
+  workerId?: string;
+  jobId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  endpoint?: string;
+  method?: string;
+}
+
 /**
  * Audit logger for security events
  */
@@ -46,19 +77,7 @@ class AuditLogger {
   /**
    * Log a security event
    */
-  async log(event: {
-    eventType: SecurityEventType;
-    severity: Severity;
-    message: string;
-    details?: Record<string, any>;
-    userId?: string;
-    workerId?: string;
-    jobId?: string;
-    ipAddress?: string;
-    userAgent?: string;
-    endpoint?: string;
-    method?: string;
-  }): Promise<void> {
+  async log(event: AuditEvent): Promise<void> {
     try {
       await db.insert(auditLogs).values({
         eventType: event.eventType,
@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+
+/**
+ * Verify a cron request carries the shared CRON_SECRET
+ * Expects: Authorization: Bearer <CRON_SECRET> (same header Vercel Cron sends)
+ *
+ * SECURITY: Fails closed - if no secret is configured, every request is rejected
+ */
+export function verifyCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    console.error('CRON_SECRET not configured - rejecting cron request');
+    return false;
+  }
+
+  const header = req.headers.get('authorization') || '';
+  const expected = `Bearer ${secret}`;
+
+  // Constant-time comparison (lengths must match for timingSafeEqual)
+  const provided = Buffer.from(header);
+  const wanted = Buffer.from(expected);
+  if (provided.length !== wanted.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(provided, wanted);
+}
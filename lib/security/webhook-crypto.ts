@@ -26,6 +26,39 @@ export function signWebhookWithTimestamp(
   return crypto.createHmac('sha256', secret).update(signedContent).digest('hex');
 }
 
+/**
+ * Content a worker signs for a request to the platform (deliveries, accepts, signed GETs...)
+ *
+ * Binds the signature to the method, path and job, so a signed request - especially an
+ * empty-body one - can't be replayed against another endpoint or job:
+ * signature = HMAC(secret, timestamp + "." + METHOD + "\n" + path + "\n" + jobId + "\n" + body)
+ *
+ * @param request.method - HTTP method (e.g. POST)
+ * @param request.path - URL path without the query string (e.g. /api/jobs/{jobId}/deliver)
+ * @param request.jobId - Job the request is for ('' for calls not tied to a job, e.g. bids)
+ * @param request.body - Raw request body ('' for bodyless requests)
+ */
+export function workerRequestPayload(request: {
+  method: string;
+  path: string;
+  jobId: string;
+  body: string;
+}): string {
+  return [request.method.toUpperCase(), request.path, request.jobId, request.body].join('\n');
+}
+
+/**
+ * Sign a worker request to the platform (see workerRequestPayload)
+ * @returns Hex-encoded HMAC signature (64 chars)
+ */
+export function signWorkerRequest(
+  request: { method: string; path: string; jobId: string; body: string },
+  timestamp: string,
+  secret: string
+): string {
+  return signWebhookWithTimestamp(workerRequestPayload(request), timestamp, secret);
+}
+
 /**
  * Verify a webhook signature using constant-time comparison
  * @param payload - The payload that was signed
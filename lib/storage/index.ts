@@ -0,0 +1,43 @@
+import { LocalStorage } from './local';
+import { S3Storage } from './s3';
+import type { BlobStorage } from './types';
+
+export type { BlobStorage } from './types';
+
+let instance: BlobStorage | null = null;
+
+/**
+ * Configured blob storage backend
+ *
+ * STORAGE_DRIVER=local (default) writes under STORAGE_LOCAL_DIR;
+ * STORAGE_DRIVER=s3 needs the S3_* variables from .env.example
+ */
+export function getStorage(): BlobStorage {
+  if (instance) {
+    return instance;
+  }
+
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('STORAGE_DRIVER=s3 needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    instance = new S3Storage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  } else if (driver === 'local') {
+    instance = new LocalStorage(process.env.STORAGE_LOCAL_DIR || '.storage');
+  } else {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+
+  return instance;
+}
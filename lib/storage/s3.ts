@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import type { BlobStorage } from './types';
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com, R2 or MinIO URL
+  bucket: string;
+  region: string; // 'auto' for R2
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * S3-compatible backend (AWS S3, Cloudflare R2, MinIO)
+ *
+ * Talks to the REST API directly with SigV4-signed, path-style requests,
+ * so it works with any provider that speaks the S3 protocol.
+ */
+export class S3Storage implements BlobStorage {
+  constructor(private readonly config: S3StorageConfig) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, contentType);
+
+    if (!response.ok) {
+      throw new Error(`S3 upload failed for ${key}: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`S3 download failed for ${key}: ${response.status} ${await response.text()}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed for ${key}: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey } = this.config;
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    const url = new URL(`${endpoint.replace(/\/$/, '')}/${bucket}/${encodedKey}`);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''); // 20260101T120000Z
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    // SigV4: canonical request -> string to sign -> derived key signature
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '', // No query string
+      signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region)
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host: _host, ...requestHeaders } = headers; // fetch sets Host itself
+
+    return await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
@@ -0,0 +1,10 @@
+/**
+ * Blob storage backend (deliverable artifacts and other uploaded files)
+ *
+ * Keys are slash-separated paths chosen by the caller, e.g. jobs/<jobId>/<sha256>
+ */
+export interface BlobStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null if the key doesn't exist
+  delete(key: string): Promise<void>; // No-op if the key doesn't exist
+}
@@ -0,0 +1,36 @@
+/**
+ * Job-related TypeScript types
+ */
+
+export type JobStatus =
+  | 'queued'
+  | 'posted'
+  | 'in_progress'
+  | 'delivered'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'declined'
+  | 'disputed'
+  | 'resolved';
+
+/**
+ * Every job status (for validating filters)
+ */
+export const JOB_STATUSES = [
+  'queued',
+  'posted',
+  'in_progress',
+  'delivered',
+  'approved',
+  'rejected',
+  'cancelled',
+  'declined',
+  'disputed',
+  'resolved',
+] as const satisfies readonly JobStatus[];
+
+/**
+ * Statuses that occupy one of a worker's concurrent job slots
+ */
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['posted', 'in_progress', 'delivered'];
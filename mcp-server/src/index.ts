@@ -8,12 +8,17 @@ import {
 import { SkillLibrary } from './skills.js';
 import { CatalogLibrary } from './catalog.js';
 import { detectProjectContext } from './detect.js';
+import { secretsScanner } from './secrets-scanner.js';
+import { checkPatch, writePatch, type PatchCheck } from './patch.js';
 import type { ProjectProfile } from './types.js';
+import { readFileSync } from 'fs';
+import crypto from 'crypto';
 import path from 'path';
 
 import type { CatalogEntry } from './types.js';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://a2a-marketplace-three.vercel.app';
+const API_BASE_URL =
+  process.env.API_URL || process.env.NEXT_PUBLIC_APP_URL || 'https://a2a-marketplace-three.vercel.app';
 const WORKSPACE_PATH = process.cwd();
 const SKILLS_PATH = path.join(WORKSPACE_PATH, 'skills');
 
@@ -69,11 +74,110 @@ export function formatSolveResponse(
   return parts.join('\n');
 }
 
+/**
+ * Auth token saved by `mentat-mcp setup` (env from the MCP config, then ~/.mentat/config.json)
+ */
+function loadAuthToken(): string | null {
+  if (process.env.AUTH_TOKEN) {
+    return process.env.AUTH_TOKEN;
+  }
+
+  try {
+    const configPath = path.join(process.env.HOME || process.env.USERPROFILE || '', '.mentat', 'config.json');
+    const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    return typeof config.authToken === 'string' ? config.authToken : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format worker matches with their offers for the user to pick from.
+ * Exported for testing.
+ */
+export function formatWorkerMatches(task: string, budget: number, matches: any[]): string {
+  if (matches.length === 0) {
+    return [
+      `No workers match "${task}" right now.`,
+      '',
+      'Try a broader task description or a higher budget, or use `solve` to find skills and CLI tools instead.',
+    ].join('\n');
+  }
+
+  const parts: string[] = [];
+
+  parts.push(`## Workers for "${task}" (budget $${budget.toFixed(2)})`);
+  parts.push('');
+
+  matches.forEach((match, index) => {
+    const { worker, offer: suggested, score, reasons } = match;
+
+    parts.push(`### ${index + 1}. ${worker.name} - ${score}/100`);
+    parts.push(`workerId: ${worker.id} · Specialty: ${worker.specialty}`);
+    parts.push(`Why: ${reasons.join('; ')}`);
+    parts.push('Offers:');
+    for (const offer of worker.offers || []) {
+      const marker = offer.id === suggested.id ? ' (suggested)' : '';
+      parts.push(
+        `- ${offer.title}${marker} - offerId: ${offer.id} - $${(offer.priceCents / 100).toFixed(2)}, ` +
+          `${offer.etaMinutesMin}-${offer.etaMinutesMax} min, ${offer.revisionsIncluded} revision(s)` +
+          (offer.scopeNotes ? ` - ${offer.scopeNotes}` : '')
+      );
+    }
+    parts.push('');
+  });
+
+  parts.push('To hire, call hire_worker again with the workerId, offerId and the targetFiles the worker needs to see.');
+
+  return parts.join('\n');
+}
+
+/**
+ * Format an apply_delivery preview or result.
+ * Exported for testing.
+ */
+export function formatPatchCheck(
+  jobId: string,
+  check: PatchCheck,
+  { requested, applied }: { requested: boolean; applied: boolean },
+): string {
+  const lines = [
+    applied
+      ? `Applied the delivery for job ${jobId}:`
+      : check.clean
+        ? `The delivery for job ${jobId} applies cleanly:`
+        : `The delivery for job ${jobId} conflicts with your workspace:`,
+    '',
+  ];
+
+  for (const file of check.files) {
+    const hunks = file.action === 'modify' ? ` (${file.hunks} hunk${file.hunks === 1 ? '' : 's'})` : '';
+    lines.push(`  ${file.conflicts.length ? '✗' : '✓'} ${file.action} ${file.path}${hunks}`);
+    for (const conflict of file.conflicts) {
+      lines.push(...conflict.split('\n').map((l) => `      ${l}`));
+    }
+  }
+
+  lines.push('');
+
+  if (applied) {
+    lines.push('Review the changes (and run your tests), then approve_job to release payment or reject_job to dispute.');
+  } else if (!check.clean) {
+    lines.push(
+      `${requested ? 'Nothing was written. ' : ''}Resolve the conflicts (or ask the worker for a revision against your current code) before applying.`
+    );
+  } else {
+    lines.push('Nothing written yet. Run apply_delivery with apply: true to write these changes. Approval stays a separate step (approve_job).');
+  }
+
+  return lines.join('\n');
+}
+
 class MentatServer {
   private server: Server;
   private skillLibrary: SkillLibrary;
   private catalogLibrary: CatalogLibrary;
-  private apiKey: string | null = null;
+  private apiKey: string | null = loadAuthToken();
 
   constructor() {
     this.server = new Server(
@@ -144,7 +248,9 @@ class MentatServer {
         },
         {
           name: 'hire_worker',
-          description: 'Get expert help with custom tasks (coming soon)',
+          description:
+            'Hire a paid specialist worker. Call with just task and budget to see matching workers and their offers, ' +
+            'then again with workerId and offerId to create the job (funds are held in escrow until you approve)',
           inputSchema: {
             type: 'object',
             properties: {
@@ -152,8 +258,25 @@ class MentatServer {
                 type: 'string',
                 description: 'What needs to be done',
               },
+              budget: {
+                type: 'number',
+                description: 'Most you want to spend, in USD',
+              },
+              workerId: {
+                type: 'string',
+                description: 'Worker to hire (from the matches)',
+              },
+              offerId: {
+                type: 'string',
+                description: "Which of the worker's offers to hire against",
+              },
+              targetFiles: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Files the worker needs to see (scanned for secrets before upload)',
+              },
             },
-            required: ['task'],
+            required: ['task', 'budget'],
           },
         },
         {
@@ -170,6 +293,25 @@ class MentatServer {
             required: ['jobId'],
           },
         },
+        {
+          name: 'apply_delivery',
+          description:
+            'Preview or apply a patch a worker delivered against your local project. Previews by default; applying does not approve the job',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              jobId: {
+                type: 'string',
+                description: 'ID of the delivered job',
+              },
+              apply: {
+                type: 'boolean',
+                description: 'Write the changes to your files (only if the patch applies cleanly). Defaults to false (preview)',
+              },
+            },
+            required: ['jobId'],
+          },
+        },
         {
           name: 'approve_job',
           description: 'Accept completed work and release payment to the worker',
@@ -196,7 +338,7 @@ class MentatServer {
         },
         {
           name: 'reject_job',
-          description: 'Request a refund for unsatisfactory work',
+          description: 'Reject unsatisfactory work (opens a dispute with the worker, refund decided by an arbitrator)',
           inputSchema: {
             type: 'object',
             properties: {
@@ -212,6 +354,25 @@ class MentatServer {
             required: ['jobId', 'reason'],
           },
         },
+        {
+          name: 'cancel_job',
+          description:
+            'Cancel a job before it is delivered (full refund until the worker accepts, a kill fee goes to the worker after)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              jobId: {
+                type: 'string',
+                description: 'ID of the job to cancel',
+              },
+              reason: {
+                type: 'string',
+                description: 'Why you are cancelling (optional, shared with the worker)',
+              },
+            },
+            required: ['jobId'],
+          },
+        },
         {
           name: 'check_wallet',
           description: 'View your current wallet balance',
@@ -236,10 +397,14 @@ class MentatServer {
             return await this.hireWorker(args as any);
           case 'check_job':
             return await this.checkJob(args as any);
+          case 'apply_delivery':
+            return await this.applyDelivery(args as any);
           case 'approve_job':
             return await this.approveJob(args as any);
           case 'reject_job':
             return await this.rejectJob(args as any);
+          case 'cancel_job':
+            return await this.cancelJob(args as any);
           case 'check_wallet':
             return await this.checkWallet();
           default:
@@ -315,21 +480,154 @@ class MentatServer {
     };
   }
 
-  private async hireWorker(_args: { task: string }) {
+  private async hireWorker(args: {
+    task: string;
+    budget: number;
+    workerId?: string;
+    offerId?: string;
+    targetFiles?: string[];
+  }) {
+    if (!this.apiKey) {
+      throw new Error('Not signed in. Run `npx mentat-mcp setup` first.');
+    }
+
+    // No worker picked yet - show who fits
+    if (!args.workerId || !args.offerId) {
+      return await this.findWorkers(args.task, args.budget);
+    }
+
+    const offer = await this.getWorkerOffer(args.workerId, args.offerId);
+    const price = offer.priceCents / 100;
+
+    if (price > args.budget) {
+      throw new Error(`Offer "${offer.title}" costs $${price.toFixed(2)}, over your $${args.budget.toFixed(2)} budget`);
+    }
+
+    const { files, truncated } = await this.gatherWorkerFiles(args.targetFiles || []);
+    const profile = await detectProjectContext(WORKSPACE_PATH);
+
+    const response = await fetch(`${API_BASE_URL}/api/jobs`, {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'worker',
+        workerId: args.workerId,
+        offerId: args.offerId,
+        task: args.task,
+        context: {
+          files,
+          project: { language: profile.language, framework: profile.framework },
+        },
+        queueIfBusy: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(`Hiring failed: ${error}`);
+    }
+
+    const { job, queuePosition } = await response.json();
+
     return {
       content: [
         {
           type: 'text',
           text: [
-            'Worker marketplace coming soon.',
+            `Worker hired. Job ID: ${job.id}`,
             '',
-            'For now, use `solve` to find available skills and CLI tools that can help with your task.',
+            `Escrow: $${parseFloat(job.budget).toFixed(2)} held until you approve`,
+            job.status === 'queued'
+              ? `Deadline: starts when the worker frees up (position ${queuePosition} in their queue)`
+              : `Deadline: ${new Date(job.timeoutAt).toLocaleString()}`,
+            `Files sent: ${Object.keys(files).length ? Object.keys(files).join(', ') : 'none'}${truncated ? ' (some files skipped - too large)' : ''}`,
+            '',
+            'Use check_job to follow progress, then approve_job or reject_job once it is delivered.',
           ].join('\n'),
         },
       ],
     };
   }
 
+  private async findWorkers(task: string, budget: number) {
+    const profile = await detectProjectContext(WORKSPACE_PATH);
+
+    const response = await fetch(`${API_BASE_URL}/api/match`, {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        task,
+        budget,
+        projectProfile: {
+          language: profile.language,
+          framework: profile.framework,
+          dependencies: profile.dependencies,
+          fileTypes: profile.fileTypes,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(`Worker search failed: ${error}`);
+    }
+
+    const { matches } = await response.json();
+
+    return {
+      content: [{ type: 'text', text: formatWorkerMatches(task, budget, matches) }],
+    };
+  }
+
+  private async getWorkerOffer(workerId: string, offerId: string) {
+    const response = await fetch(`${API_BASE_URL}/api/workers/${workerId}`);
+
+    if (!response.ok) {
+      throw new Error(`Worker fetch failed: ${response.statusText}`);
+    }
+
+    const { worker } = await response.json();
+    const offers: any[] = worker.offers || [];
+    const offer = offers.find((o) => o.id === offerId);
+
+    if (!offer) {
+      throw new Error(
+        `Offer ${offerId} not found for ${worker.name}. Available: ${offers.map((o) => o.id).join(', ') || 'none'}`
+      );
+    }
+
+    return offer;
+  }
+
+  /**
+   * Read the files to send and refuse to upload anything that looks like a secret
+   */
+  private async gatherWorkerFiles(targetFiles: string[]) {
+    if (targetFiles.length === 0) {
+      return { files: {} as Record<string, string>, truncated: false };
+    }
+
+    const gathered = await this.skillLibrary.gatherContext([], targetFiles);
+    const files = Object.fromEntries(gathered.files.map((f) => [f.path, f.content]));
+
+    const scan = secretsScanner.scanContext({ files });
+
+    if (!scan.safe) {
+      throw new Error(
+        `Not hiring: these files look like they contain secrets and won't be uploaded: ${scan.blockedFiles.join(', ')}. ` +
+          'Remove them from targetFiles (or strip the secrets) and try again.'
+      );
+    }
+
+    return { files, truncated: gathered.truncated };
+  }
+
   private async checkJob(args: { jobId: string }) {
     const response = await fetch(`${API_BASE_URL}/api/jobs/${args.jobId}`, {
       headers: this.getAuthHeaders(),
@@ -339,15 +637,66 @@ class MentatServer {
       throw new Error(`Job fetch failed: ${response.statusText}`);
     }
 
-    const { job } = await response.json();
+    const { job, progress, dispute, milestones } = await response.json();
+    const latest = job.status === 'in_progress' ? progress?.[0] : undefined;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Job ${job.id}\n\nStatus: ${job.status}\nTask: ${job.task}\nBudget: $${job.budget}\nCreated: ${new Date(job.createdAt).toLocaleString()}\n${milestones?.length ? `\nMilestones: ${milestones.map((m: any) => `\n  ${m.position}. ${m.title} ($${m.amount}) - ${m.status}`).join('')}` : ''}${latest ? `\nProgress: ${latest.percent}% - ${latest.message} (${new Date(latest.createdAt).toLocaleString()})${latest.artifactUrl ? `\nPartial result: ${latest.artifactUrl}` : ''}` : ''}${job.deliveredAt ? `\nDelivered: ${new Date(job.deliveredAt).toLocaleString()}` : ''}${dispute && job.status === 'disputed' ? `\nDispute: ${dispute.status === 'awaiting_worker' ? `waiting for the worker's response (until ${new Date(dispute.responseDeadlineAt).toLocaleString()})` : 'waiting for arbitration'}` : ''}${job.status === 'delivered' && job.reviewDeadlineAt ? `\nAuto-approves: ${new Date(job.reviewDeadlineAt).toLocaleString()} (approve, reject or request a revision before then)` : ''}`,
+        },
+      ],
+    };
+  }
+
+  private async applyDelivery(args: { jobId: string; apply?: boolean }) {
+    const response = await fetch(`${API_BASE_URL}/api/jobs/${args.jobId}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Job fetch failed: ${response.statusText}`);
+    }
+
+    const { job, artifacts } = await response.json();
+    const patchArtifact = artifacts?.find((a: any) => a.kind === 'patch');
+
+    if (!patchArtifact) {
+      throw new Error(`Job ${job.id} has no patch deliverable (status: ${job.status}). Use check_job to see what was delivered.`);
+    }
+
+    const download = await fetch(`${API_BASE_URL}${patchArtifact.downloadUrl}`, {
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!download.ok) {
+      throw new Error(`Patch download failed: ${download.statusText}`);
+    }
+
+    const patch = await download.text();
+
+    // CRITICAL: Only apply exactly what the worker delivered
+    const sha256 = crypto.createHash('sha256').update(patch, 'utf-8').digest('hex');
+    if (sha256 !== patchArtifact.sha256) {
+      throw new Error('Patch failed its integrity check - not applying it');
+    }
+
+    const check = await checkPatch(WORKSPACE_PATH, patch);
+    const applied = Boolean(args.apply) && check.clean;
+
+    if (applied) {
+      await writePatch(WORKSPACE_PATH, check);
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `Job ${job.id}\n\nStatus: ${job.status}\nTask: ${job.task}\nBudget: $${job.budget}\nCreated: ${new Date(job.createdAt).toLocaleString()}\n${job.deliveredAt ? `\nDelivered: ${new Date(job.deliveredAt).toLocaleString()}` : ''}`,
+          text: formatPatchCheck(job.id, check, { requested: Boolean(args.apply), applied }),
         },
       ],
+      isError: Boolean(args.apply) && !applied,
     };
   }
 
@@ -404,11 +753,46 @@ class MentatServer {
       throw new Error(`Rejection failed: ${response.statusText}`);
     }
 
+    const { job } = await response.json();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            job.status === 'disputed'
+              ? `Dispute opened. Funds stay in escrow while the worker responds; an arbitrator then decides the refund. Use check_job to follow it.`
+              : `Job rejected. Funds refunded to your wallet.`,
+        },
+      ],
+    };
+  }
+
+  private async cancelJob(args: { jobId: string; reason?: string }) {
+    const response = await fetch(
+      `${API_BASE_URL}/api/jobs/${args.jobId}/cancel`,
+      {
+        method: 'POST',
+        headers: {
+          ...this.getAuthHeaders(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(args.reason ? { reason: args.reason } : {}),
+      }
+    );
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(`Cancellation failed: ${error}`);
+    }
+
+    const { refundAmount, workerPayout } = await response.json();
+
     return {
       content: [
         {
           type: 'text',
-          text: `Job rejected. Funds refunded to your wallet.`,
+          text: `Job cancelled. $${refundAmount.toFixed(2)} refunded to your wallet.${workerPayout > 0 ? ` The worker had already accepted, so $${workerPayout.toFixed(2)} was paid to them as a kill fee.` : ''}`,
         },
       ],
     };
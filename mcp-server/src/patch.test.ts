@@ -0,0 +1,278 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parsePatch, applyFilePatch, checkPatch, writePatch } from './patch.js';
+import { createFixture, cleanupFixture } from './test-helpers.js';
+import { formatPatchCheck } from './index.js';
+
+// ─── Patch deliverables (apply_delivery) ────────────────────────────
+
+const ORIGINAL = ['one', 'two', 'three', 'four', 'five', ''].join('\n');
+
+const MODIFY_PATCH = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -2,3 +2,3 @@',
+  ' two',
+  '-three',
+  '+THREE',
+  ' four',
+  '',
+].join('\n');
+
+describe('parsePatch', () => {
+  it('reads file headers and hunks', () => {
+    const [file] = parsePatch(MODIFY_PATCH);
+
+    expect(file.oldPath).toBe('src/app.ts');
+    expect(file.newPath).toBe('src/app.ts');
+    expect(file.hunks).toHaveLength(1);
+    expect(file.hunks[0]).toMatchObject({ oldStart: 2, oldLines: 3, newStart: 2, newLines: 3 });
+  });
+
+  it('rejects text that is not a diff', () => {
+    expect(() => parsePatch('just some text')).toThrow(/Not a unified diff/);
+  });
+
+  it('rejects hunks that do not match their line counts', () => {
+    const broken = ['--- a/x', '+++ b/x', '@@ -1,3 +1,3 @@', ' a', '-b'].join('\n');
+    expect(() => parsePatch(broken)).toThrow(/line counts/);
+  });
+
+  it('rejects two sections for the same file', () => {
+    const twice = MODIFY_PATCH + MODIFY_PATCH.split('b/src/app.ts').join('b/./src/app.ts');
+    expect(() => parsePatch(twice)).toThrow(/src\/app\.ts appears in more than one file section/);
+  });
+});
+
+describe('applyFilePatch', () => {
+  it('applies a hunk at its stated position', () => {
+    const [file] = parsePatch(MODIFY_PATCH);
+    const result = applyFilePatch(ORIGINAL, file);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(['one', 'two', 'THREE', 'four', 'five', ''].join('\n'));
+  });
+
+  it('finds context that has moved', () => {
+    const [file] = parsePatch(MODIFY_PATCH);
+    const result = applyFilePatch(`zero\nzero\n${ORIGINAL}`, file);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(['zero', 'zero', 'one', 'two', 'THREE', 'four', 'five', ''].join('\n'));
+  });
+
+  it('reports a conflict when the context is gone', () => {
+    const [file] = parsePatch(MODIFY_PATCH);
+    const result = applyFilePatch(ORIGINAL.replace('three', 'drei'), file);
+
+    expect(result.content).toBeNull();
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toContain('@@ -2,3 +2,3 @@');
+  });
+
+  it('keeps a missing newline at end of file', () => {
+    const patch = [
+      '--- a/x.txt',
+      '+++ b/x.txt',
+      '@@ -1 +1 @@',
+      '-old',
+      '\\ No newline at end of file',
+      '+new',
+      '\\ No newline at end of file',
+    ].join('\n');
+
+    const [file] = parsePatch(patch);
+    expect(applyFilePatch('old', file)).toEqual({ content: 'new', conflicts: [] });
+  });
+});
+
+describe('checkPatch / writePatch', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await cleanupFixture(dir);
+    dir = undefined;
+  });
+
+  it('previews without writing, then applies a clean patch', async () => {
+    dir = await createFixture({ 'src/app.ts': ORIGINAL });
+
+    const check = await checkPatch(dir, MODIFY_PATCH);
+    expect(check.clean).toBe(true);
+    expect(check.files).toEqual([
+      expect.objectContaining({ path: 'src/app.ts', action: 'modify', hunks: 1, conflicts: [] }),
+    ]);
+    expect(await fs.readFile(path.join(dir, 'src/app.ts'), 'utf-8')).toBe(ORIGINAL);
+
+    await writePatch(dir, check);
+    expect(await fs.readFile(path.join(dir, 'src/app.ts'), 'utf-8')).toContain('THREE');
+  });
+
+  it('creates and deletes files', async () => {
+    dir = await createFixture({ 'old.txt': 'bye\n' });
+
+    const patch = [
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+export const a = 1;',
+      '+export const b = 2;',
+      '--- a/old.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+      '',
+    ].join('\n');
+
+    const check = await checkPatch(dir, patch);
+    expect(check.files.map((f) => [f.path, f.action])).toEqual([
+      ['src/new.ts', 'create'],
+      ['old.txt', 'delete'],
+    ]);
+
+    await writePatch(dir, check);
+    expect(await fs.readFile(path.join(dir, 'src/new.ts'), 'utf-8')).toBe('export const a = 1;\nexport const b = 2;\n');
+    await expect(fs.access(path.join(dir, 'old.txt'))).rejects.toThrow();
+  });
+
+  it('writes nothing if any file conflicts', async () => {
+    dir = await createFixture({ 'src/app.ts': ORIGINAL, 'exists.ts': 'already here\n' });
+
+    const patch = MODIFY_PATCH + ['--- /dev/null', '+++ b/exists.ts', '@@ -0,0 +1 @@', '+new', ''].join('\n');
+
+    const check = await checkPatch(dir, patch);
+    expect(check.clean).toBe(false);
+    expect(check.files.find((f) => f.path === 'exists.ts')?.conflicts).toEqual(['File already exists']);
+
+    await expect(writePatch(dir, check)).rejects.toThrow(/nothing was written/);
+    expect(await fs.readFile(path.join(dir, 'src/app.ts'), 'utf-8')).toBe(ORIGINAL);
+  });
+
+  it('refuses a patch that changes the same file twice', async () => {
+    dir = await createFixture({ 'src/app.ts': ORIGINAL });
+
+    const otherChange = MODIFY_PATCH.split('-three\n+THREE').join('-three\n+3');
+
+    await expect(checkPatch(dir, MODIFY_PATCH + otherChange)).rejects.toThrow(/more than one file section/);
+    expect(await fs.readFile(path.join(dir, 'src/app.ts'), 'utf-8')).toBe(ORIGINAL);
+  });
+
+  it('refuses paths outside the workspace', async () => {
+    dir = await createFixture({});
+
+    const patch = ['--- /dev/null', '+++ b/../escape.txt', '@@ -0,0 +1 @@', '+x', ''].join('\n');
+
+    const check = await checkPatch(dir, patch);
+    expect(check.clean).toBe(false);
+    expect(check.files[0].conflicts).toEqual(['Path is outside the workspace']);
+  });
+
+  it('refuses paths inside .git', async () => {
+    dir = await createFixture({ '.git/config': '[core]\n' });
+
+    const patch = ['--- a/.git/config', '+++ b/.git/config', '@@ -1 +1,2 @@', ' [core]', '+\tfsmonitor = evil', ''].join('\n');
+
+    const check = await checkPatch(dir, patch);
+    expect(check.clean).toBe(false);
+    expect(check.files[0].conflicts).toEqual(['Paths inside .git are not allowed']);
+  });
+
+  it('refuses writes through a symlinked directory that leaves the workspace', async () => {
+    dir = await createFixture({});
+    const outside = await createFixture({});
+
+    try {
+      await fs.symlink(outside, path.join(dir, 'linked'));
+
+      const patch = ['--- /dev/null', '+++ b/linked/escape.txt', '@@ -0,0 +1 @@', '+x', ''].join('\n');
+
+      const check = await checkPatch(dir, patch);
+      expect(check.clean).toBe(false);
+      expect(check.files[0].conflicts).toEqual(['Path is outside the workspace']);
+    } finally {
+      await cleanupFixture(outside);
+    }
+  });
+
+  it('refuses writes through a symlinked file or a link into .git', async () => {
+    dir = await createFixture({ '.git/HEAD': 'ref: refs/heads/main\n' });
+    const outside = await createFixture({ 'target.txt': 'one\n' });
+
+    try {
+      await fs.symlink(path.join(outside, 'target.txt'), path.join(dir, 'file.txt'));
+      await fs.symlink(path.join(dir, '.git'), path.join(dir, 'repo'));
+
+      const patch = [
+        '--- a/file.txt',
+        '+++ b/file.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+two',
+        '--- a/repo/HEAD',
+        '+++ b/repo/HEAD',
+        '@@ -1 +1 @@',
+        '-ref: refs/heads/main',
+        '+ref: refs/heads/evil',
+        '',
+      ].join('\n');
+
+      const check = await checkPatch(dir, patch);
+      expect(check.files.map((f) => f.conflicts)).toEqual([
+        ['Path is outside the workspace'],
+        ['Path is outside the workspace'],
+      ]);
+      expect(await fs.readFile(path.join(outside, 'target.txt'), 'utf-8')).toBe('one\n');
+    } finally {
+      await cleanupFixture(outside);
+    }
+  });
+
+  it('follows symlinks that stay inside the workspace', async () => {
+    dir = await createFixture({ 'src/app.ts': ORIGINAL });
+    await fs.symlink(path.join(dir, 'src'), path.join(dir, 'lib'));
+
+    const check = await checkPatch(dir, MODIFY_PATCH.split('src/app.ts').join('lib/app.ts'));
+    expect(check.clean).toBe(true);
+  });
+
+  it('refuses to write if a symlink appears after the check', async () => {
+    dir = await createFixture({});
+    const outside = await createFixture({});
+
+    try {
+      const patch = ['--- /dev/null', '+++ b/out/escape.txt', '@@ -0,0 +1 @@', '+x', ''].join('\n');
+
+      const check = await checkPatch(dir, patch);
+      expect(check.clean).toBe(true);
+
+      await fs.symlink(outside, path.join(dir, 'out'));
+
+      await expect(writePatch(dir, check)).rejects.toThrow(/outside the workspace/);
+      await expect(fs.access(path.join(outside, 'escape.txt'))).rejects.toThrow();
+    } finally {
+      await cleanupFixture(outside);
+    }
+  });
+});
+
+describe('formatPatchCheck', () => {
+  it('keeps approval a separate step after applying', async () => {
+    const dir = await createFixture({ 'src/app.ts': ORIGINAL });
+    try {
+      const check = await checkPatch(dir, MODIFY_PATCH);
+
+      const preview = formatPatchCheck('job-1', check, { requested: false, applied: false });
+      expect(preview).toContain('applies cleanly');
+      expect(preview).toContain('modify src/app.ts (1 hunk)');
+      expect(preview).toContain('apply: true');
+
+      const applied = formatPatchCheck('job-1', check, { requested: true, applied: true });
+      expect(applied).toContain('approve_job');
+      expect(applied).toContain('reject_job');
+    } finally {
+      await cleanupFixture(dir);
+    }
+  });
+});
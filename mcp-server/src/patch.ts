@@ -0,0 +1,348 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Unified diff parsing and application for apply_delivery.
+ *
+ * Patches are checked against the workspace first: every hunk must find its
+ * context (at the stated line, or shifted if the file moved on). Nothing is
+ * written unless every file applies cleanly.
+ */
+
+export interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // With their ' ', '-', '+' prefix
+  noNewlineOld: boolean; // "\ No newline at end of file" on the old side
+  noNewlineNew: boolean;
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null = new file
+  newPath: string | null; // null = deleted file
+  hunks: Hunk[];
+}
+
+export type FileAction = 'create' | 'modify' | 'delete';
+
+export interface FileCheck {
+  path: string;
+  action: FileAction;
+  hunks: number;
+  conflicts: string[]; // Empty when the file applies cleanly
+  content: string | null; // Patched content (null for deletions or conflicts)
+}
+
+export interface PatchCheck {
+  clean: boolean;
+  files: FileCheck[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse a unified diff (git diff / diff -u output)
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.split('\n');
+  const patches: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!lines[i].startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) {
+      i++;
+      continue;
+    }
+
+    const filePatch: FilePatch = {
+      oldPath: parsePath(lines[i].slice(4)),
+      newPath: parsePath(lines[i + 1].slice(4)),
+      hunks: [],
+    };
+    i += 2;
+
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const match = HUNK_HEADER.exec(lines[i]);
+      if (!match) {
+        throw new Error(`Malformed hunk header: ${lines[i]}`);
+      }
+
+      const hunk: Hunk = {
+        header: lines[i],
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+        noNewlineOld: false,
+        noNewlineNew: false,
+      };
+      i++;
+
+      let oldRemaining = hunk.oldLines;
+      let newRemaining = hunk.newLines;
+
+      while (i < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i].startsWith('\\'))) {
+        const line = lines[i] === '' ? ' ' : lines[i];
+        const prefix = line[0];
+
+        if (prefix === '\\') {
+          const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+          if (previous !== '+') hunk.noNewlineOld = true;
+          if (previous !== '-') hunk.noNewlineNew = true;
+        } else if (prefix === ' ' || prefix === '-' || prefix === '+') {
+          hunk.lines.push(line);
+          if (prefix !== '+') oldRemaining--;
+          if (prefix !== '-') newRemaining--;
+        } else {
+          throw new Error(`Unexpected line in hunk ${hunk.header}: ${line}`);
+        }
+
+        i++;
+      }
+
+      if (oldRemaining !== 0 || newRemaining !== 0) {
+        throw new Error(`Hunk ${hunk.header} doesn't match its line counts`);
+      }
+
+      filePatch.hunks.push(hunk);
+    }
+
+    patches.push(filePatch);
+  }
+
+  if (patches.length === 0) {
+    throw new Error('Not a unified diff (no ---/+++ file headers)');
+  }
+
+  // A second section for the same file would silently overwrite the first one's result
+  const seen = new Set<string>();
+  for (const filePatch of patches) {
+    const filePath = path.posix.normalize((filePatch.newPath ?? filePatch.oldPath)!);
+    if (seen.has(filePath)) {
+      throw new Error(`${filePath} appears in more than one file section`);
+    }
+    seen.add(filePath);
+  }
+
+  return patches;
+}
+
+/**
+ * Apply one file's hunks to its current content (null = file doesn't exist)
+ */
+export function applyFilePatch(
+  original: string | null,
+  filePatch: FilePatch,
+): { content: string | null; conflicts: string[] } {
+  const conflicts: string[] = [];
+
+  if (filePatch.oldPath === null && original !== null) {
+    return { content: null, conflicts: ['File already exists'] };
+  }
+  if (filePatch.oldPath !== null && original === null) {
+    return { content: null, conflicts: ['File not found'] };
+  }
+
+  const { lines: originalLines, trailingNewline } = splitLines(original ?? '');
+  const result: string[] = [];
+  let cursor = 0;
+  let offset = 0;
+  let noNewlineOld = false;
+  let noNewlineNew = false;
+
+  for (const hunk of filePatch.hunks) {
+    const oldLines = hunk.lines.filter((l) => l[0] !== '+').map((l) => l.slice(1));
+    const newLines = hunk.lines.filter((l) => l[0] !== '-').map((l) => l.slice(1));
+
+    // A hunk that removes nothing inserts after line oldStart; otherwise it starts there
+    const expected = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+    const position = findLines(originalLines, oldLines, expected, cursor);
+
+    if (position === -1) {
+      conflicts.push(`${hunk.header} - expected:\n${oldLines.map((l) => `  ${l}`).join('\n') || '  (nothing)'}`);
+      continue;
+    }
+
+    result.push(...originalLines.slice(cursor, position), ...newLines);
+    cursor = position + oldLines.length;
+    offset = position - (expected - offset);
+    noNewlineOld ||= hunk.noNewlineOld;
+    noNewlineNew ||= hunk.noNewlineNew;
+  }
+
+  if (conflicts.length > 0) {
+    return { content: null, conflicts };
+  }
+
+  if (filePatch.newPath === null) {
+    return { content: null, conflicts };
+  }
+
+  result.push(...originalLines.slice(cursor));
+
+  const endsWithNewline = noNewlineNew
+    ? false
+    : noNewlineOld || original === null || trailingNewline;
+
+  return {
+    content: result.join('\n') + (endsWithNewline && result.length > 0 ? '\n' : ''),
+    conflicts,
+  };
+}
+
+/**
+ * Check a patch against the workspace without writing anything
+ */
+export async function checkPatch(workspacePath: string, text: string): Promise<PatchCheck> {
+  const files: FileCheck[] = [];
+
+  for (const filePatch of parsePatch(text)) {
+    const relativePath = (filePatch.newPath ?? filePatch.oldPath)!;
+    const action: FileAction =
+      filePatch.oldPath === null ? 'create' : filePatch.newPath === null ? 'delete' : 'modify';
+
+    if (hasGitSegment(relativePath)) {
+      files.push({ path: relativePath, action, hunks: filePatch.hunks.length, conflicts: ['Paths inside .git are not allowed'], content: null });
+      continue;
+    }
+
+    const resolved = await resolveInWorkspace(workspacePath, relativePath);
+    if (!resolved) {
+      files.push({ path: relativePath, action, hunks: filePatch.hunks.length, conflicts: ['Path is outside the workspace'], content: null });
+      continue;
+    }
+
+    if (filePatch.oldPath !== null && filePatch.newPath !== null && filePatch.oldPath !== filePatch.newPath) {
+      files.push({ path: relativePath, action, hunks: filePatch.hunks.length, conflicts: ['Renames are not supported'], content: null });
+      continue;
+    }
+
+    const original = await fs.readFile(resolved, 'utf-8').catch(() => null);
+    const { content, conflicts } = applyFilePatch(original, filePatch);
+
+    files.push({ path: relativePath, action, hunks: filePatch.hunks.length, conflicts, content });
+  }
+
+  return {
+    clean: files.every((f) => f.conflicts.length === 0),
+    files,
+  };
+}
+
+/**
+ * Write a clean patch check to disk
+ */
+export async function writePatch(workspacePath: string, check: PatchCheck): Promise<void> {
+  if (!check.clean) {
+    throw new Error('Patch has conflicts - nothing was written');
+  }
+
+  // Resolve again right before writing - a symlink could have appeared since the check
+  const targets: { file: FileCheck; resolved: string }[] = [];
+  for (const file of check.files) {
+    const resolved = hasGitSegment(file.path) ? null : await resolveInWorkspace(workspacePath, file.path);
+    if (!resolved) {
+      throw new Error(`${file.path} is outside the workspace - nothing was written`);
+    }
+    targets.push({ file, resolved });
+  }
+
+  for (const { file, resolved } of targets) {
+    if (file.action === 'delete') {
+      await fs.rm(resolved);
+      continue;
+    }
+
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.writeFile(resolved, file.content!);
+  }
+}
+
+/**
+ * Path from a ---/+++ header (a/ b/ prefixes and timestamps removed, null for /dev/null)
+ */
+function parsePath(header: string): string | null {
+  const filePath = header.split('\t')[0].trim();
+  return filePath === '/dev/null' ? null : filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * SECURITY: Absolute paths, '..' and symlinks can't escape the workspace (or reach .git)
+ * Checked on the path as written, then again on its real path - symlinks resolved
+ * up to the nearest part that exists - so a link can't redirect the write
+ */
+async function resolveInWorkspace(workspacePath: string, relativePath: string): Promise<string | null> {
+  const root = path.resolve(workspacePath);
+  const resolved = path.resolve(root, relativePath);
+
+  if (!isInside(root, resolved)) {
+    return null;
+  }
+
+  try {
+    const realRoot = await fs.realpath(root);
+    return isInside(realRoot, await realpathOfNearest(resolved)) ? resolved : null;
+  } catch {
+    return null; // Dangling symlink, or the workspace itself is gone
+  }
+}
+
+/**
+ * Real path of `target`, following symlinks as far as the path exists
+ * The missing rest can't be a symlink yet, so it's appended as is
+ */
+async function realpathOfNearest(target: string): Promise<string> {
+  let existing = target;
+
+  while (!(await fs.lstat(existing).catch(() => null))) {
+    existing = path.dirname(existing);
+  }
+
+  // Throws for a dangling symlink - writing there would create its target
+  return path.join(await fs.realpath(existing), path.relative(existing, target));
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '' && !path.isAbsolute(relative) && relative.split(path.sep)[0] !== '..' && !hasGitSegment(relative);
+}
+
+/**
+ * .git/config, hooks and friends would let a patch run code on the next git command
+ */
+function hasGitSegment(filePath: string): boolean {
+  return filePath.split(/[\\/]/).some((segment) => segment.toLowerCase() === '.git');
+}
+
+function splitLines(content: string): { lines: string[]; trailingNewline: boolean } {
+  if (content === '') {
+    return { lines: [], trailingNewline: false };
+  }
+
+  const trailingNewline = content.endsWith('\n');
+  const lines = content.split('\n');
+  if (trailingNewline) lines.pop();
+
+  return { lines, trailingNewline };
+}
+
+/**
+ * Where `needle` occurs in `haystack` at or after `from`, closest to `expected` first
+ */
+function findLines(haystack: string[], needle: string[], expected: number, from: number): number {
+  const matchesAt = (position: number) =>
+    position >= from &&
+    position + needle.length <= haystack.length &&
+    needle.every((line, i) => haystack[position + i] === line);
+
+  for (let distance = 0; distance <= haystack.length; distance++) {
+    if (matchesAt(expected - distance)) return expected - distance;
+    if (matchesAt(expected + distance)) return expected + distance;
+  }
+
+  return -1;
+}
@@ -10,8 +10,21 @@ const isPublicRoute = createRouteMatcher([
   // Stripe webhooks (verified by Stripe signature, not Clerk)
   '/api/webhooks/stripe',
 
-  // Worker delivery webhook (verified by webhook signature, not Clerk)
+  // Worker callbacks (verified by webhook signature, not Clerk)
   '/api/jobs/(.*)/deliver',
+  '/api/jobs/(.*)/accept',
+  '/api/jobs/(.*)/decline',
+  '/api/jobs/(.*)/progress',
+  '/api/jobs/(.*)/dispute-response',
+  '/api/postings/(.*)/bids',
+
+  // Job details and message threads (buyer via Clerk session or worker via signature - checked in the route)
+  // /api/jobs/:id matches the job itself only, not its action routes
+  '/api/jobs/:id',
+  '/api/jobs/(.*)/messages',
+
+  // Scheduled jobs (verified by CRON_SECRET, not Clerk)
+  '/api/cron/(.*)',
 
   // Public read-only routes (browsing)
   '/api/skills',
@@ -25,9 +38,15 @@ const isPublicRoute = createRouteMatcher([
 // - /api/jobs (POST) - create job
 // - /api/jobs/[id]/approve - release escrow
 // - /api/jobs/[id]/reject - refund escrow
+// - /api/jobs/[id]/request-revision - send delivery back to worker
+// - /api/jobs/[id]/cancel - cancel job (refund / kill fee)
+// - /api/jobs/[id]/milestones/[milestoneId]/approve - release milestone escrow
+// - /api/postings - open postings (bids are awarded here, escrow locks on award)
+// - /api/pipelines - multi-step pipelines
+// - /api/admin/* - admin only (ADMIN_USER_IDS, checked in the route)
 // - /api/wallet - view wallet
 // - /api/wallet/add-funds - add funds
-// - /api/match - match job
+// - /api/match - rank workers for a task
 
 export default clerkMiddleware((auth, req) => {
   if (!isPublicRoute(req)) {
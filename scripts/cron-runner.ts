@@ -0,0 +1,83 @@
+/**
+ * Local cron runner
+ *
+ * Calls the protected /api/cron/* routes on an interval, for local dev and
+ * self-hosted deployments without a platform scheduler.
+ * Routes are idempotent and lock-guarded, so running several runners is safe.
+ *
+ * Run with: npm run cron            (loop every CRON_INTERVAL_SECONDS)
+ *           npm run cron -- --once  (single pass, e.g. from system cron)
+ */
+
+import { config } from 'dotenv';
+config();
+
+const BASE_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const CRON_SECRET = process.env.CRON_SECRET;
+const INTERVAL_SECONDS = Number(process.env.CRON_INTERVAL_SECONDS) || 60;
+
+const CRON_ROUTES = [
+  '/api/cron/timeouts',
+  '/api/cron/review-windows',
+  '/api/cron/disputes',
+  '/api/cron/pipelines',
+  '/api/cron/ledger',
+];
+
+async function callRoute(route: string): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    const response = await fetch(`${BASE_URL}${route}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+      signal: AbortSignal.timeout(55_000),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    const duration = Date.now() - startTime;
+
+    if (!response.ok) {
+      console.error(`❌ ${route} → ${response.status} (${duration}ms)`, body);
+      return;
+    }
+
+    console.log(`✓ ${route} (${duration}ms)`, body);
+  } catch (error) {
+    console.error(`❌ ${route} failed:`, error instanceof Error ? error.message : error);
+  }
+}
+
+async function runOnce(): Promise<void> {
+  for (const route of CRON_ROUTES) {
+    await callRoute(route);
+  }
+}
+
+async function main() {
+  if (!CRON_SECRET) {
+    throw new Error('CRON_SECRET not found in environment');
+  }
+
+  if (process.argv.includes('--once')) {
+    await runOnce();
+    return;
+  }
+
+  console.log(`⏱️  Cron runner calling ${BASE_URL} every ${INTERVAL_SECONDS}s (Ctrl+C to stop)`);
+
+  process.on('SIGINT', () => {
+    console.log('\nStopping cron runner');
+    process.exit(0);
+  });
+
+  while (true) {
+    await runOnce();
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL_SECONDS * 1000));
+  }
+}
+
+main().catch((err) => {
+  console.error('Cron runner failed:', err);
+  process.exit(1);
+});
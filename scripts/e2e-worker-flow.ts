@@ -133,6 +133,8 @@ async function runE2ETest() {
     console.log('     avgCompletionTime: 5,');
     console.log('     p90CompletionTime: 10,');
     console.log('     pricing: 10,');
+    console.log('     offers: [{ id: "test-offer", title: "Test Offer", priceCents: 1000, currency: "USD",');
+    console.log('       etaMinutesMin: 5, etaMinutesMax: 10, revisionsIncluded: 1, scopeNotes: "E2E test", tags: ["test"] }],');
     console.log(`     apiEndpoint: "http://localhost:${MOCK_WORKER_PORT}",`);
     console.log('     webhookSecret: "test_secret_123"');
     console.log('   }');
@@ -147,10 +149,10 @@ async function runE2ETest() {
     console.log('   Body: {');
     console.log('     type: "worker",');
     console.log('     workerId: "<worker_id_from_step_1>",');
+    console.log('     offerId: "<offer_id_from_step_1>",');
     console.log('     task: "Test job for E2E flow",');
     console.log('     inputs: {},');
-    console.log('     context: { files: { "test.txt": "hello world" } },');
-    console.log('     budget: 10');
+    console.log('     context: { files: { "test.txt": "hello world" } }');
     console.log('   }');
     console.log('');
     console.log('4. Verify Mock Worker Receives Webhook:');
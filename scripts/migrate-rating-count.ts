@@ -0,0 +1,76 @@
+/**
+ * Migration: Add workers.rating_count and backfill it
+ *
+ * Reputation is now averaged over rated completions only (auto-approvals carry
+ * no rating). Every completion before this change was rated, so existing
+ * workers start with rating_count = completion_count.
+ *
+ * Run once, when deploying: npx tsx scripts/migrate-rating-count.ts
+ * If the column already exists (e.g. created by db:push) the backfill is skipped,
+ * since later unrated completions would be counted - pass --force to run it anyway
+ */
+
+import { config } from 'dotenv';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { sql } from 'drizzle-orm';
+
+config();
+
+async function migrateRatingCount() {
+  console.log('🗄️  Adding workers.rating_count...');
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL not found in environment');
+  }
+
+  const force = process.argv.includes('--force');
+
+  const client = postgres(connectionString);
+  const db = drizzle(client);
+
+  try {
+    const existing = await db.execute(sql`
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'workers' AND column_name = 'rating_count'
+    `);
+
+    if (existing.length > 0 && !force) {
+      console.log('⏭️  Column already exists - skipping backfill (pass --force to backfill anyway)');
+      await client.end();
+      process.exit(0);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        ALTER TABLE "workers"
+        ADD COLUMN IF NOT EXISTS "rating_count" integer DEFAULT 0 NOT NULL
+      `);
+
+      console.log('✅ Column added');
+
+      const backfilled = await tx.execute(sql`
+        UPDATE "workers"
+        SET "rating_count" = "completion_count"
+        WHERE "rating_count" <> "completion_count"
+        RETURNING "id"
+      `);
+
+      console.log(`✅ Backfilled ${backfilled.length} workers (rating_count = completion_count)`);
+    });
+
+    console.log('');
+    console.log('🎉 Migration complete!');
+    console.log('');
+
+    await client.end();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    await client.end();
+    process.exit(1);
+  }
+}
+
+migrateRatingCount();
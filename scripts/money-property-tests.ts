@@ -0,0 +1,190 @@
+/**
+ * Money Property Tests
+ *
+ * Checks the invariants of lib/money against thousands of random amounts:
+ * fee splits never create or lose a cent, and decimal conversions round-trip.
+ * Seeded, so a failure reproduces (pass a seed to replay one).
+ *
+ * Run with: npx tsx scripts/money-property-tests.ts [seed]
+ */
+
+import {
+  fromDecimal,
+  fromDollars,
+  isWholeCents,
+  percentOf,
+  splitFee,
+  toDecimal,
+  toDollars,
+  type Cents,
+} from '../lib/money';
+
+const RUNS = 10_000;
+const seed = Number(process.argv[2]) || Date.now() % 2 ** 31;
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  message: string;
+  details?: any;
+}
+
+const results: TestResult[] = [];
+
+function logTest(result: TestResult) {
+  results.push(result);
+  const icon = result.passed ? '✅' : '❌';
+  console.log(`${icon} ${result.name}`);
+  console.log(`   ${result.message}`);
+  if (result.details) {
+    console.log(`   Details:`, result.details);
+  }
+  console.log('');
+}
+
+/**
+ * mulberry32 - small, fast, good enough to spread cases around
+ */
+function createRandom(state: number) {
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(seed);
+
+function randomInt(max: number): number {
+  return Math.floor(random() * (max + 1));
+}
+
+// Mostly realistic job sizes, with edge cases mixed in
+function randomCents(): Cents {
+  const roll = random();
+  if (roll < 0.05) return 0;
+  if (roll < 0.15) return randomInt(10);
+  if (roll < 0.9) return randomInt(1_000_000); // Up to $10,000
+  return randomInt(99_999_999); // decimal(10,2) max
+}
+
+// Whole percents, two-decimal percents and the bounds
+function randomPercent(): number {
+  const roll = random();
+  if (roll < 0.05) return 0;
+  if (roll < 0.1) return 100;
+  if (roll < 0.6) return randomInt(100);
+  return randomInt(10_000) / 100;
+}
+
+/**
+ * Check a property against RUNS random cases, reporting the first counterexample
+ */
+function property<T>(name: string, generate: () => T, holds: (input: T) => boolean) {
+  for (let run = 0; run < RUNS; run++) {
+    const input = generate();
+    let passed: boolean;
+
+    try {
+      passed = holds(input);
+    } catch {
+      passed = false;
+    }
+
+    if (!passed) {
+      logTest({
+        name,
+        passed: false,
+        message: `Counterexample after ${run + 1} runs (seed ${seed})`,
+        details: input,
+      });
+      return;
+    }
+  }
+
+  logTest({ name, passed: true, message: `${RUNS} random cases` });
+}
+
+console.log(`💰 Money property tests (seed ${seed})\n`);
+
+property(
+  'Fee plus payout equals the amount',
+  () => ({ amount: randomCents(), percent: randomPercent() }),
+  ({ amount, percent }) => {
+    const { fee, payout } = splitFee(amount, percent);
+    return fee + payout === amount;
+  }
+);
+
+property(
+  'Fee and payout are whole cents within the amount',
+  () => ({ amount: randomCents(), percent: randomPercent() }),
+  ({ amount, percent }) => {
+    const { fee, payout } = splitFee(amount, percent);
+    return Number.isInteger(fee) && Number.isInteger(payout) && fee >= 0 && payout >= 0 && fee <= amount;
+  }
+);
+
+property(
+  'Fee is the exact percentage rounded half up',
+  () => ({ amount: randomCents(), percent: randomInt(100) }),
+  ({ amount, percent }) => {
+    // Whole percents: exact in integers, no floats involved
+    const fee = percentOf(amount, percent);
+    const exact = amount * percent; // Hundredths of a cent
+    return fee === Math.floor(exact / 100) + (exact % 100 >= 50 ? 1 : 0);
+  }
+);
+
+property(
+  'A bigger percentage never takes a smaller fee',
+  () => ({ amount: randomCents(), a: randomPercent(), b: randomPercent() }),
+  ({ amount, a, b }) => {
+    const [low, high] = a <= b ? [a, b] : [b, a];
+    return percentOf(amount, low) <= percentOf(amount, high);
+  }
+);
+
+property(
+  'Escrow split (share, then fee on the share) adds back to the escrow',
+  () => ({ amount: randomCents(), share: randomPercent(), fee: randomPercent() }),
+  ({ amount, share, fee }) => {
+    const workerGross = percentOf(amount, share);
+    const refund = amount - workerGross;
+    const split = splitFee(workerGross, fee);
+    return refund >= 0 && refund + split.fee + split.payout === amount;
+  }
+);
+
+property(
+  'Decimal strings round-trip',
+  () => randomCents() * (random() < 0.1 ? -1 : 1),
+  (cents) => fromDecimal(toDecimal(cents)) === cents && /^-?\d+\.\d{2}$/.test(toDecimal(cents))
+);
+
+property(
+  'Dollar amounts round-trip',
+  () => randomCents(),
+  (cents) => isWholeCents(toDollars(cents)) && fromDollars(toDollars(cents)) === cents
+);
+
+property(
+  'Sub-cent dollar amounts are rejected',
+  () => randomInt(1_000_000) / 100 + (randomInt(8) + 1) / 1000,
+  (dollars) => {
+    try {
+      fromDollars(dollars);
+      return false;
+    } catch {
+      return !isWholeCents(dollars);
+    }
+  }
+);
+
+const failed = results.filter((r) => !r.passed);
+console.log(`${results.length - failed.length}/${results.length} properties hold`);
+
+if (failed.length > 0) {
+  process.exit(1);
+}
@@ -10,10 +10,26 @@ async function main() {
 
   console.log('Dropping all tables...');
 
+  // Children before parents
+  await client`DROP TABLE IF EXISTS ledger_lines CASCADE`;
+  await client`DROP TABLE IF EXISTS ledger_entries CASCADE`;
+  await client`DROP TABLE IF EXISTS stripe_events CASCADE`;
+  await client`DROP TABLE IF EXISTS job_events CASCADE`;
+  await client`DROP TABLE IF EXISTS job_progress CASCADE`;
+  await client`DROP TABLE IF EXISTS job_artifacts CASCADE`;
+  await client`DROP TABLE IF EXISTS job_messages CASCADE`;
+  await client`DROP TABLE IF EXISTS job_milestones CASCADE`;
+  await client`DROP TABLE IF EXISTS disputes CASCADE`;
   await client`DROP TABLE IF EXISTS escrow CASCADE`;
   await client`DROP TABLE IF EXISTS transactions CASCADE`;
+  await client`DROP TABLE IF EXISTS bids CASCADE`;
+  await client`DROP TABLE IF EXISTS job_postings CASCADE`;
+  await client`DROP TABLE IF EXISTS pipeline_steps CASCADE`;
   await client`DROP TABLE IF EXISTS jobs CASCADE`;
+  await client`DROP TABLE IF EXISTS pipelines CASCADE`;
   await client`DROP TABLE IF EXISTS workers CASCADE`;
+  await client`DROP TABLE IF EXISTS skill_executions CASCADE`;
+  await client`DROP TABLE IF EXISTS skill_versions CASCADE`;
   await client`DROP TABLE IF EXISTS skills CASCADE`;
   await client`DROP TABLE IF EXISTS users CASCADE`;
 
@@ -92,9 +92,9 @@ const MCPTools = {
    */
   async hireWorker(params: {
     workerId: string;
+    offerId: string;
     task: string;
     context: any;
-    budget: number;
   }) {
     const response = await fetch(`${BASE_URL}/api/jobs`, {
       method: 'POST',
@@ -104,10 +104,10 @@ const MCPTools = {
       body: JSON.stringify({
         type: 'worker',
         workerId: params.workerId,
+        offerId: params.offerId,
         task: params.task,
         inputs: {},
         context: params.context,
-        budget: params.budget,
       }),
     });
 
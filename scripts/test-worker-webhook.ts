@@ -11,7 +11,7 @@
  */
 
 import { createServer } from 'http';
-import { signWebhookWithTimestamp } from '../lib/security/webhook-crypto';
+import { signWorkerRequest } from '../lib/security/webhook-crypto';
 
 const WORKER_PORT = 3001;
 const WEBHOOK_SECRET = 'test_worker_secret_123';
@@ -80,7 +80,11 @@ async function sendDelivery(jobId: string, callbackUrl: string) {
   });
 
   const timestamp = Date.now().toString();
-  const signature = signWebhookWithTimestamp(deliveryPayload, timestamp, WEBHOOK_SECRET);
+  const signature = signWorkerRequest(
+    { method: 'POST', path: new URL(callbackUrl).pathname, jobId, body: deliveryPayload },
+    timestamp,
+    WEBHOOK_SECRET
+  );
 
   console.log('📤 Sending delivery to platform:');
   console.log(`   Callback URL: ${callbackUrl}`);